@@ -0,0 +1,25 @@
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import { AgentProfile, LocalizedText } from '../types';
+import { localize } from '../services/agentProfile';
+import { useI18n } from '../i18n';
+
+interface AgentProfileContextValue {
+  profile: AgentProfile;
+  /** Picks profile copy in the current interface language. */
+  localized: (text: LocalizedText) => string;
+}
+
+const AgentProfileContext = createContext<AgentProfileContextValue | null>(null);
+
+export const AgentProfileProvider: React.FC<{ profile: AgentProfile; children: React.ReactNode }> = ({ profile, children }) => {
+  const { language } = useI18n();
+  const localized = useCallback((text: LocalizedText) => localize(text, language), [language]);
+  const value = useMemo(() => ({ profile, localized }), [profile, localized]);
+  return <AgentProfileContext.Provider value={value}>{children}</AgentProfileContext.Provider>;
+};
+
+export function useAgentProfile(): AgentProfileContextValue {
+  const context = useContext(AgentProfileContext);
+  if (!context) throw new Error('useAgentProfile must be used inside an AgentProfileProvider');
+  return context;
+}
@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActionWindow, CaseBrief, ConsultationRecord } from '../types';
+import { ACTION_WINDOWS, caseBriefToMarkdown, draftCaseBrief, isCaseBriefStale } from '../services/caseBrief';
+import { downloadFile } from '../services/exportFormats';
+import { saveConsultation } from '../services/sessionStore';
+import { createRedactor, loadRedactionSettings } from '../services/redaction';
+import { MessageKey, stageKey, useI18n } from '../i18n';
+import { useAgentProfile } from './AgentProfileProvider';
+import { STAGE_STYLES } from './StageTimeline';
+
+interface CaseBriefReviewProps {
+  record: ConsultationRecord;
+  onDone: () => void;
+}
+
+type ListField = 'stakeholders' | 'risks' | 'holdingLines';
+
+const LIST_FIELDS: { field: ListField; label: MessageKey }[] = [
+  { field: 'stakeholders', label: 'brief.stakeholders' },
+  { field: 'risks', label: 'brief.risks' },
+  { field: 'holdingLines', label: 'brief.holdingLines' },
+];
+
+const ACTION_LABELS: Record<ActionWindow, MessageKey> = {
+  '24h': 'brief.actions24h',
+  '48h': 'brief.actions48h',
+  '72h': 'brief.actions72h',
+};
+
+/** Edits are written to storage once typing pauses, not on every keystroke. */
+const SAVE_DELAY_MS = 800;
+
+const fieldClass = 'w-full bg-black/20 border border-white/10 rounded-xl p-3 text-sm text-slate-200 focus:outline-none focus:border-blue-500/50 resize-y';
+
+/** Lists are edited as one item per line. */
+const ListEditor: React.FC<{ label: string; value: string[]; onChange: (value: string[]) => void }> = ({ label, value, onChange }) => (
+  <label className="block space-y-2">
+    <span className="text-xs font-bold uppercase tracking-widest text-slate-500">{label}</span>
+    <textarea
+      value={value.join('\n')}
+      onChange={e => onChange(e.target.value.split('\n'))}
+      rows={Math.max(3, value.length + 1)}
+      className={fieldClass}
+    />
+  </label>
+);
+
+/**
+ * Shown after a consultation ends: drafts a case brief from the log, lets the
+ * client edit it and copy or download it. Edits are saved with the consultation.
+ */
+const CaseBriefReview: React.FC<CaseBriefReviewProps> = ({ record, onDone }) => {
+  const { t, language } = useI18n();
+  const { profile } = useAgentProfile();
+  const [brief, setBrief] = useState<CaseBrief | null>(() => (isCaseBriefStale(record) ? null : record.caseBrief));
+  const [drafting, setDrafting] = useState(false);
+  const [error, setError] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [redacted, setRedacted] = useState(true);
+  /** Only the latest drafting request may set the brief; earlier ones finish unheard. */
+  const requestRef = useRef(0);
+  const draftedRef = useRef(false);
+  const unsavedRef = useRef<ConsultationRecord | null>(null);
+
+  const draft = useCallback(async () => {
+    const request = ++requestRef.current;
+    setDrafting(true);
+    setError(false);
+    try {
+      const next = await draftCaseBrief(record, language);
+      if (request === requestRef.current) setBrief(next);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Failed to draft case brief:', err);
+      setError(true);
+    } finally {
+      if (request === requestRef.current) setDrafting(false);
+    }
+  }, [record, language]);
+
+  // Strict mode runs this twice in development; the ref keeps it to one request.
+  useEffect(() => {
+    if (brief || draftedRef.current) return;
+    draftedRef.current = true;
+    draft();
+  }, []);
+
+  const saveUnsaved = () => {
+    const next = unsavedRef.current;
+    if (!next) return;
+    unsavedRef.current = null;
+    saveConsultation(next).catch(err => console.error('Failed to save case brief:', err));
+  };
+
+  useEffect(() => {
+    if (!brief) return;
+    unsavedRef.current = { ...record, caseBrief: brief };
+    const timer = setTimeout(saveUnsaved, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [brief]);
+
+  // Whatever is still waiting is saved when the review closes.
+  useEffect(() => saveUnsaved, []);
+
+  const update = (changes: Partial<CaseBrief>) => setBrief(prev => prev && { ...prev, ...changes });
+
+  /** The brief as it leaves the app: redacted unless the client chose the full copy. */
+  const exportedMarkdown = () => {
+    const full = { ...record, caseBrief: brief };
+    const exported = redacted ? createRedactor(loadRedactionSettings().names).redactRecord(full) : full;
+    return caseBriefToMarkdown(exported.caseBrief, exported, profile.branding.firmName);
+  };
+
+  const copy = async () => {
+    if (!brief) return;
+    try {
+      await navigator.clipboard.writeText(exportedMarkdown());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy case brief:', err);
+    }
+  };
+
+  const download = () => {
+    if (!brief) return;
+    const date = new Date(record.startedAt).toISOString().slice(0, 10);
+    downloadFile(exportedMarkdown(), `${profile.id}-case-brief-${date}${redacted ? '-redacted' : ''}.md`, 'text/markdown');
+  };
+
+  const buttonClass = 'px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 text-sm font-medium transition-colors border border-white/10 disabled:opacity-40';
+
+  return (
+    <div className="w-full space-y-6 animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">{t('brief.title')}</h2>
+          <div className="flex items-center gap-2 mt-1">
+            {record.crisisStage && (
+              <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-tighter ${STAGE_STYLES[record.crisisStage.stage]}`}>
+                {t(stageKey(record.crisisStage.stage))}
+              </span>
+            )}
+            <span className="text-xs text-slate-500">{new Date(record.startedAt).toLocaleString()}</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 px-2 text-xs text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={redacted} onChange={e => setRedacted(e.target.checked)} className="accent-blue-500" />
+            {t('brief.redact')}
+          </label>
+          <button onClick={draft} disabled={drafting} className={buttonClass}>{t('brief.regenerate')}</button>
+          <button onClick={copy} disabled={!brief} className={buttonClass}>{copied ? t('brief.copied') : t('brief.copy')}</button>
+          <button onClick={download} disabled={!brief} className={buttonClass}>{t('brief.export')}</button>
+          <button onClick={onDone} className="px-6 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-all">
+            {t('brief.done')}
+          </button>
+        </div>
+      </div>
+
+      {drafting && <p className="text-sm text-slate-400 animate-pulse">{t('brief.drafting')}</p>}
+      {error && (
+        <div className="px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-xl text-xs text-red-400">{t('brief.failed')}</div>
+      )}
+
+      {brief && (
+        <div className={`space-y-5 bg-white/5 p-6 rounded-3xl border border-white/10 ${drafting ? 'opacity-50 pointer-events-none' : ''}`}>
+          <p className="text-xs text-slate-500">{t('brief.disclaimer')}</p>
+          <label className="block space-y-2">
+            <span className="text-xs font-bold uppercase tracking-widest text-slate-500">{t('brief.summary')}</span>
+            <textarea value={brief.summary} onChange={e => update({ summary: e.target.value })} rows={5} className={fieldClass} />
+          </label>
+          {LIST_FIELDS.map(({ field, label }) => (
+            <ListEditor key={field} label={t(label)} value={brief[field]} onChange={value => update({ [field]: value })} />
+          ))}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {ACTION_WINDOWS.map(window => (
+              <ListEditor
+                key={window}
+                label={t(ACTION_LABELS[window])}
+                value={brief.actions[window]}
+                onChange={value => update({ actions: { ...brief.actions, [window]: value } })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaseBriefReview;
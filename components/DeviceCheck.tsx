@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioDeviceSelection } from '../types';
+import {
+  AudioDeviceLists,
+  MicProblem,
+  applyOutputDevice,
+  classifyMicError,
+  listAudioDevices,
+  micConstraints,
+  resolveDevices,
+  supportsOutputSelection,
+} from '../services/audioDevices';
+import { measureLevel } from '../services/voiceActivity';
+import { MessageKey, useI18n } from '../i18n';
+
+interface DeviceCheckProps {
+  initial: AudioDeviceSelection;
+  onContinue: (selection: AudioDeviceSelection) => void;
+  onBack: () => void;
+}
+
+const PROBLEM_GUIDANCE: Record<MicProblem, MessageKey> = {
+  denied: 'preflight.denied',
+  notFound: 'preflight.notFound',
+  unavailable: 'preflight.unavailable',
+};
+
+/** RMS level that counts as hearing something; matches the voice activity detector's floor. */
+const AUDIBLE_LEVEL = 0.01;
+/** How long an open microphone may stay silent before we suggest checking it. */
+const SILENCE_HINT_MS = 4000;
+const TONE_SECONDS = 1.2;
+
+/** Speech sits low on a linear RMS scale, so the bar uses a square-root curve. */
+const meterWidth = (level: number) => `${Math.min(100, Math.sqrt(level) * 200)}%`;
+
+const newAudioContext = () => new (window.AudioContext || (window as any).webkitAudioContext)();
+
+/**
+ * Runs before a consultation: lets the caller pick a microphone and speaker,
+ * shows a live input level and plays a test tone. A blocked or missing
+ * microphone is explained here; the caller can still continue by text.
+ */
+const DeviceCheck: React.FC<DeviceCheckProps> = ({ initial, onContinue, onBack }) => {
+  const { t } = useI18n();
+  const [selection, setSelection] = useState(initial);
+  const [devices, setDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+  const [problem, setProblem] = useState<MicProblem | null>(null);
+  const [opening, setOpening] = useState(true);
+  const [silent, setSilent] = useState(false);
+  const [playingTone, setPlayingTone] = useState(false);
+  const [toneFailed, setToneFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const meterRef = useRef<HTMLDivElement>(null);
+  const toneCtxRef = useRef<AudioContext | null>(null);
+  const canPickOutput = supportsOutputSelection();
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      const lists = await listAudioDevices();
+      setDevices(lists);
+      return lists;
+    } catch (err) {
+      console.error('Could not list audio devices:', err);
+      return null;
+    }
+  }, []);
+
+  // Opens the chosen microphone and drives the level meter until the input changes or the check closes.
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let frame = 0;
+    setOpening(true);
+    setSilent(false);
+
+    const release = () => {
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+      ctx?.close().catch(() => {});
+      ctx = null;
+    };
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(selection) });
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Microphone check failed:', err);
+        // A saved headset that has since been unplugged: fall back to the default rather than failing.
+        if (selection.inputId && err instanceof DOMException && err.name === 'OverconstrainedError') {
+          setSelection(s => ({ ...s, inputId: '' }));
+          return;
+        }
+        setProblem(classifyMicError(err));
+        setOpening(false);
+        await refreshDevices();
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      setProblem(null);
+      setOpening(false);
+
+      // Labels only appear once permission is granted, so list devices after opening the stream.
+      const lists = await refreshDevices();
+      // The input changed or the check closed while devices were listed; the cleanup has already stopped the stream.
+      if (cancelled) return;
+      if (lists) {
+        const resolved = resolveDevices(selection, lists);
+        if (resolved.outputId !== selection.outputId) setSelection(s => ({ ...s, outputId: resolved.outputId }));
+      }
+
+      ctx = newAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      if (cancelled) {
+        release();
+        return;
+      }
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 256;
+      ctx.createMediaStreamSource(stream).connect(analyser);
+      const buffer = new Float32Array(analyser.fftSize);
+      let lastHeardAt = performance.now();
+
+      const draw = () => {
+        frame = requestAnimationFrame(draw);
+        const level = measureLevel(analyser, buffer);
+        const now = performance.now();
+        if (level >= AUDIBLE_LEVEL) lastHeardAt = now;
+        setSilent(now - lastHeardAt > SILENCE_HINT_MS);
+        if (meterRef.current) meterRef.current.style.width = meterWidth(level);
+      };
+      draw();
+    })();
+
+    return () => {
+      cancelled = true;
+      release();
+    };
+  }, [selection.inputId, attempt]);
+
+  useEffect(() => {
+    const onChange = () => { refreshDevices(); };
+    navigator.mediaDevices?.addEventListener('devicechange', onChange);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', onChange);
+  }, [refreshDevices]);
+
+  useEffect(() => () => {
+    toneCtxRef.current?.close().catch(() => {});
+  }, []);
+
+  const playTone = async () => {
+    setToneFailed(false);
+    setPlayingTone(true);
+    try {
+      toneCtxRef.current?.close().catch(() => {});
+      const ctx = newAudioContext();
+      toneCtxRef.current = ctx;
+      await applyOutputDevice(ctx, selection.outputId);
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime;
+      oscillator.frequency.value = 440;
+      // Short fades avoid the click of a square start and stop.
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.2, start + 0.05);
+      gain.gain.setValueAtTime(0.2, start + TONE_SECONDS - 0.1);
+      gain.gain.linearRampToValueAtTime(0, start + TONE_SECONDS);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.onended = () => {
+        if (toneCtxRef.current === ctx) setPlayingTone(false);
+      };
+      oscillator.start(start);
+      oscillator.stop(start + TONE_SECONDS);
+    } catch (err) {
+      console.error('Test tone failed:', err);
+      setToneFailed(true);
+      setPlayingTone(false);
+    }
+  };
+
+  const deviceLabel = (device: MediaDeviceInfo, index: number) => device.label || t('preflight.deviceFallback', { n: index + 1 });
+
+  const selectClass = 'w-full bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500/50 disabled:opacity-40';
+  const labelClass = 'text-xs font-bold uppercase tracking-widest text-slate-500';
+
+  return (
+    <div className="w-full max-w-lg space-y-6 animate-in fade-in duration-300">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">{t('preflight.title')}</h2>
+        <p className="text-sm text-slate-400 mt-1">{t('preflight.intro')}</p>
+      </div>
+
+      <div className="space-y-5 bg-white/5 p-6 rounded-3xl border border-white/10">
+        <label className="block space-y-2">
+          <span className={labelClass}>{t('preflight.microphone')}</span>
+          <select
+            value={selection.inputId}
+            onChange={e => setSelection(s => ({ ...s, inputId: e.target.value }))}
+            disabled={problem === 'denied'}
+            className={selectClass}
+          >
+            <option value="">{t('preflight.systemDefault')}</option>
+            {devices.inputs.map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+            ))}
+          </select>
+        </label>
+
+        {problem ? (
+          <div className="space-y-3 px-4 py-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+            <p className="text-xs text-amber-400">{t(PROBLEM_GUIDANCE[problem])}</p>
+            <button
+              onClick={() => setAttempt(n => n + 1)}
+              className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-bold uppercase tracking-widest text-slate-300 transition-colors"
+            >
+              {t('preflight.retry')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <span className={labelClass}>{t('preflight.level')}</span>
+            <div className="h-3 rounded-full bg-black/30 overflow-hidden" role="presentation">
+              <div ref={meterRef} className="h-full w-0 bg-gradient-to-r from-emerald-500 to-blue-500 transition-[width] duration-75" />
+            </div>
+            <p className={`text-xs ${silent ? 'text-amber-400' : 'text-slate-500'}`}>
+              {opening ? t('preflight.opening') : silent ? t('preflight.silent') : t('preflight.speakNow')}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <span className={labelClass}>{t('preflight.speaker')}</span>
+          {canPickOutput ? (
+            <select
+              value={selection.outputId}
+              onChange={e => setSelection(s => ({ ...s, outputId: e.target.value }))}
+              className={selectClass}
+            >
+              <option value="">{t('preflight.systemDefault')}</option>
+              {devices.outputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-xs text-slate-500">{t('preflight.outputUnsupported')}</p>
+          )}
+          <button
+            onClick={playTone}
+            disabled={playingTone}
+            className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 text-sm font-medium transition-colors border border-white/10 disabled:opacity-40"
+          >
+            {playingTone ? t('preflight.playing') : t('preflight.testTone')}
+          </button>
+          {toneFailed && <p className="text-xs text-amber-400">{t('preflight.toneFailed')}</p>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-3">
+        <button onClick={onBack} className="px-4 py-2 rounded-xl text-slate-400 hover:text-white text-sm font-medium transition-colors">
+          {t('preflight.back')}
+        </button>
+        <button
+          onClick={() => onContinue(selection)}
+          className="px-6 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-all"
+        >
+          {problem ? t('preflight.continueText') : t('preflight.continue')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceCheck;
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConsultationRecord } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportConsultation } from '../services/exportFormats';
+import { createRedactor, loadRedactionSettings } from '../services/redaction';
+import { useI18n } from '../i18n';
+import { useAgentProfile } from './AgentProfileProvider';
+import RedactionPreview from './RedactionPreview';
+
+interface ExportMenuProps {
+  record: ConsultationRecord;
+  /** Offered as an extra entry when the session has an audio recording. */
+  onExportAudio?: () => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ record, onExportAudio }) => {
+  const { t } = useI18n();
+  const { profile } = useAgentProfile();
+  const [open, setOpen] = useState(false);
+  // Chosen per export: every time the menu opens it starts from the redacted copy.
+  const [redacted, setRedacted] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const disabled = record.transcriptions.length === 0;
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false);
+    const exported = redacted ? createRedactor(loadRedactionSettings().names).redactRecord(record) : record;
+    exportConsultation(exported, format, profile, redacted);
+  };
+
+  const toggle = () => {
+    if (!open) setRedacted(true);
+    setOpen(o => !o);
+  };
+
+  const choiceClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded-lg text-xs font-medium transition-colors ${active ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-white/5'}`;
+
+  return (
+    <div ref={menuRef} className="relative normal-case tracking-normal">
+      <button
+        onClick={toggle}
+        disabled={disabled}
+        className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-slate-300 text-[10px] font-bold uppercase tracking-widest border border-white/10 transition-colors disabled:opacity-40"
+      >
+        {t('log.export')} ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 z-20 bg-slate-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+          <div className="flex gap-1 p-2 border-b border-white/10" role="group" aria-label={t('redaction.choice')}>
+            <button onClick={() => setRedacted(true)} aria-pressed={redacted} className={choiceClass(redacted)}>
+              {t('redaction.redacted')}
+            </button>
+            <button onClick={() => setRedacted(false)} aria-pressed={!redacted} className={choiceClass(!redacted)}>
+              {t('redaction.full')}
+            </button>
+          </div>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-white/5 transition-colors"
+            >
+              {t(label)}
+            </button>
+          ))}
+          {onExportAudio && (
+            <button
+              onClick={() => {
+                setOpen(false);
+                onExportAudio();
+              }}
+              disabled={redacted}
+              title={redacted ? t('redaction.audioFullOnly') : undefined}
+              className="block w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-white/5 transition-colors border-t border-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              {t('recording.export')}
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setOpen(false);
+              setPreviewing(true);
+            }}
+            className="block w-full text-left px-4 py-2 text-sm text-blue-300 hover:bg-white/5 transition-colors border-t border-white/10"
+          >
+            {t('redaction.preview')}
+          </button>
+        </div>
+      )}
+      {previewing && <RedactionPreview record={record} onClose={() => setPreviewing(false)} />}
+    </div>
+  );
+};
+
+export default ExportMenu;
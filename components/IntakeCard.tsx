@@ -0,0 +1,49 @@
+import React from 'react';
+import { CrisisIntake } from '../types';
+import { useI18n } from '../i18n';
+
+interface IntakeCardProps {
+  intake: CrisisIntake;
+}
+
+const URGENCY_STYLES: Record<NonNullable<CrisisIntake['urgency']>, string> = {
+  Low: 'bg-slate-500/20 text-slate-300',
+  Medium: 'bg-blue-500/20 text-blue-400',
+  High: 'bg-amber-500/20 text-amber-400',
+  Critical: 'bg-red-500/20 text-red-400',
+};
+
+const IntakeCard: React.FC<IntakeCardProps> = ({ intake }) => {
+  const { t } = useI18n();
+  const rows: { label: string; value?: string }[] = [
+    { label: t('intake.organization'), value: intake.organization },
+    { label: t('intake.industry'), value: intake.industry },
+    { label: t('intake.location'), value: [intake.location, intake.timezone].filter(Boolean).join(' · ') || undefined },
+    { label: t('intake.stakeholders'), value: intake.stakeholders?.join(', ') || undefined },
+    { label: t('intake.mediaExposure'), value: intake.mediaExposure },
+    { label: t('intake.preferredContact'), value: intake.preferredContact },
+  ];
+
+  return (
+    <div className="mt-4 w-full max-w-lg px-5 py-4 bg-white/5 border border-white/10 rounded-2xl animate-in fade-in slide-in-from-top-2">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('intake.title')}</h4>
+        {intake.urgency && (
+          <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-tighter ${URGENCY_STYLES[intake.urgency]}`}>
+            {t('intake.urgency', { urgency: intake.urgency })}
+          </span>
+        )}
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+        {rows.map(row => (
+          <div key={row.label} className="flex flex-col">
+            <dt className="text-slate-500">{row.label}</dt>
+            <dd className={row.value ? 'text-slate-200' : 'text-slate-600 italic'}>{row.value ?? t('intake.pending')}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default IntakeCard;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { LANGUAGES, translate, useI18n } from '../i18n';
+
+const LanguageSelector: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <div role="group" aria-label={t('language.label')} className="flex items-center rounded-full bg-white/5 border border-white/10 p-0.5">
+      {LANGUAGES.map(code => (
+        <button
+          key={code}
+          onClick={() => setLanguage(code)}
+          aria-pressed={code === language}
+          title={translate(code, 'language.name')}
+          className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors ${
+            code === language ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'
+          }`}
+        >
+          {code}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSelector;
@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MAX_GUIDANCE_CHARS, MonitoredSession, RelayToOperator, SessionMirror } from '../services/operatorProtocol';
+import { OperatorConsole, RelayConnectionState, connectOperatorConsole } from '../services/operatorRelay';
+import { MessageKey, stageKey, useI18n } from '../i18n';
+import { useAgentProfile } from './AgentProfileProvider';
+import { STAGE_STYLES } from './StageTimeline';
+import IntakeCard from './IntakeCard';
+import TranscriptEntry from './TranscriptEntry';
+import LanguageSelector from './LanguageSelector';
+
+const TOKEN_KEY = 'rk-operator-token';
+
+const CONNECTION_LABELS: Record<RelayConnectionState, MessageKey> = {
+  connecting: 'operator.connecting',
+  open: 'operator.connected',
+  reconnecting: 'operator.reconnecting',
+  failed: 'operator.failed',
+};
+
+const STATUS_LABELS: Record<SessionMirror['status'], MessageKey> = {
+  idle: 'status.offline',
+  connecting: 'status.connecting',
+  reconnecting: 'status.reconnecting',
+  listening: 'status.listening',
+  speaking: 'status.speaking',
+};
+
+/** Flagged sessions first, then those in an active crisis, then the most recently active. */
+const byPriority = (a: MonitoredSession, b: MonitoredSession) =>
+  Number(b.callbackFlagged) - Number(a.callbackFlagged) ||
+  Number(b.mirror.crisisStage?.stage === 'During') - Number(a.mirror.crisisStage?.stage === 'During') ||
+  b.mirror.updatedAt - a.mirror.updatedAt;
+
+function reduceSessions(sessions: Map<string, MonitoredSession>, message: RelayToOperator): Map<string, MonitoredSession> {
+  if (message.type === 'sessions') return new Map(message.sessions.map(session => [session.mirror.id, session]));
+  const next = new Map(sessions);
+  if (message.type === 'session') next.set(message.session.mirror.id, message.session);
+  if (message.type === 'ended') next.delete(message.sessionId);
+  return next;
+}
+
+/**
+ * The consultant's view at `/operator`: every consultation mirrored through
+ * the relay, with its transcript, stage and intake. Guidance goes to the
+ * agent as a private note; a callback flag tells the caller to expect a call.
+ */
+const OperatorDashboard: React.FC = () => {
+  const { t } = useI18n();
+  const { profile } = useAgentProfile();
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [tokenDraft, setTokenDraft] = useState('');
+  const [signInFailed, setSignInFailed] = useState(false);
+  const [connection, setConnection] = useState<RelayConnectionState>('connecting');
+  const [sessions, setSessions] = useState<Map<string, MonitoredSession>>(new Map());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [guidance, setGuidance] = useState('');
+  const [relayError, setRelayError] = useState<string | null>(null);
+  const consoleRef = useRef<OperatorConsole | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    const relay = connectOperatorConsole(token, {
+      onStateChange: setConnection,
+      onMessage: (message) => {
+        if (message.type === 'error') setRelayError(message.message);
+        else setSessions(prev => reduceSessions(prev, message));
+      },
+    });
+    consoleRef.current = relay;
+    return () => {
+      consoleRef.current = null;
+      relay.close();
+    };
+  }, [token]);
+
+  // A refused token is forgotten so the sign-in form comes back.
+  useEffect(() => {
+    if (connection !== 'failed') return;
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken('');
+    setSignInFailed(true);
+  }, [connection]);
+
+  const ordered = useMemo(() => [...sessions.values()].sort(byPriority), [sessions]);
+  const selected = (selectedId && sessions.get(selectedId)) || null;
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [selected?.mirror.transcriptions.length]);
+
+  const signIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenDraft.trim();
+    if (!value) return;
+    sessionStorage.setItem(TOKEN_KEY, value);
+    setSignInFailed(false);
+    setConnection('connecting');
+    setToken(value);
+  };
+
+  const sendGuidance = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const text = guidance.trim();
+    if (!selected || !text) return;
+    setRelayError(null);
+    if (consoleRef.current?.send({ type: 'guidance', sessionId: selected.mirror.id, text })) setGuidance('');
+    else setRelayError(t('operator.notSent'));
+  }, [guidance, selected, t]);
+
+  const toggleCallback = () => {
+    if (!selected) return;
+    setRelayError(null);
+    if (!consoleRef.current?.send({ type: 'callbackFlag', sessionId: selected.mirror.id, flagged: !selected.callbackFlagged })) {
+      setRelayError(t('operator.notSent'));
+    }
+  };
+
+  const panelClass = 'bg-white/5 rounded-3xl border border-white/10';
+  const labelClass = 'text-[10px] font-bold uppercase tracking-widest text-slate-500';
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-white flex items-center justify-center p-4">
+        <form onSubmit={signIn} className={`w-full max-w-sm p-6 space-y-4 ${panelClass}`}>
+          <h1 className="text-xl font-semibold">{t('operator.title', { firm: profile.branding.firmName })}</h1>
+          {signInFailed && <p className="text-xs text-amber-400">{t('operator.failed')}</p>}
+          <label className="block space-y-2">
+            <span className={labelClass}>{t('operator.token')}</span>
+            <input
+              type="password"
+              value={tokenDraft}
+              onChange={e => setTokenDraft(e.target.value)}
+              autoFocus
+              className="w-full bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-blue-500/50"
+            />
+          </label>
+          <button type="submit" className="w-full py-2 rounded-xl bg-blue-600 hover:bg-blue-500 font-semibold transition-colors">
+            {t('operator.signIn')}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white flex flex-col">
+      <header className="px-6 py-4 border-b border-white/10 flex items-center justify-between gap-4">
+        <h1 className="text-lg font-semibold">{t('operator.title', { firm: profile.branding.firmName })}</h1>
+        <div className="flex items-center gap-4">
+          <span className={`text-xs ${connection === 'open' ? 'text-emerald-400' : 'text-amber-400'}`}>{t(CONNECTION_LABELS[connection])}</span>
+          <LanguageSelector />
+        </div>
+      </header>
+
+      <main className="flex-1 grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6 p-6 min-h-0">
+        <aside className={`${panelClass} p-4 space-y-2 overflow-y-auto`}>
+          <h2 className={labelClass}>{t('operator.sessions', { count: ordered.length })}</h2>
+          {ordered.length === 0 && <p className="text-sm text-slate-500">{t('operator.noSessions')}</p>}
+          {ordered.map(({ mirror, callbackFlagged }) => (
+            <button
+              key={mirror.id}
+              onClick={() => setSelectedId(mirror.id)}
+              className={`w-full text-left px-4 py-3 rounded-2xl border transition-colors ${
+                mirror.id === selectedId ? 'bg-blue-600/20 border-blue-500/40' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{mirror.intake.organization || t('operator.unnamed')}</span>
+                {mirror.crisisStage && (
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-tighter ${STAGE_STYLES[mirror.crisisStage.stage]}`}>
+                    {t(stageKey(mirror.crisisStage.stage))}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 mt-1 text-[10px] text-slate-500">
+                <span>{new Date(mirror.startedAt).toLocaleTimeString()}</span>
+                <span>·</span>
+                <span>{t(STATUS_LABELS[mirror.status])}</span>
+                {callbackFlagged && <span className="text-emerald-400 font-bold">{t('operator.flagged')}</span>}
+              </div>
+            </button>
+          ))}
+        </aside>
+
+        <section className={`${panelClass} p-6 flex flex-col min-h-0`}>
+          {!selected ? (
+            <p className="m-auto text-sm text-slate-500">{selectedId ? t('operator.ended') : t('operator.pick')}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold">{selected.mirror.intake.organization || t('operator.unnamed')}</h2>
+                  {selected.mirror.crisisStage && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      {t(stageKey(selected.mirror.crisisStage.stage))}: {selected.mirror.crisisStage.reasoning}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={toggleCallback}
+                  aria-pressed={selected.callbackFlagged}
+                  className={`px-4 py-2 rounded-xl text-sm font-semibold border transition-colors ${
+                    selected.callbackFlagged ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-red-600/20 border-red-500/40 text-red-300 hover:bg-red-600/30'
+                  }`}
+                >
+                  {selected.callbackFlagged ? t('operator.unflag') : t('operator.flag')}
+                </button>
+              </div>
+
+              <IntakeCard intake={selected.mirror.intake} />
+
+              <div className="flex-1 min-h-[200px] overflow-y-auto space-y-4 my-4 pr-2">
+                {selected.mirror.transcriptions.map((entry, i) => (
+                  <TranscriptEntry key={entry.id ?? i} entry={entry} />
+                ))}
+                <div ref={transcriptEndRef} />
+              </div>
+
+              {selected.guidance.length > 0 && (
+                <div className="space-y-1 mb-3">
+                  <h3 className={labelClass}>{t('operator.guidanceSent')}</h3>
+                  {selected.guidance.map(note => (
+                    <p key={note.at} className="text-xs text-slate-400">
+                      <span className="text-slate-500">{new Date(note.at).toLocaleTimeString()}</span> {note.text}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <form onSubmit={sendGuidance} className="flex gap-2">
+                <input
+                  value={guidance}
+                  onChange={e => setGuidance(e.target.value)}
+                  maxLength={MAX_GUIDANCE_CHARS}
+                  placeholder={t('operator.guidancePlaceholder')}
+                  className="flex-1 bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-blue-500/50"
+                />
+                <button type="submit" disabled={!guidance.trim()} className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 font-semibold transition-colors disabled:opacity-40">
+                  {t('operator.sendGuidance')}
+                </button>
+              </form>
+              {relayError && <p className="text-xs text-amber-400 mt-2">{relayError}</p>}
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default OperatorDashboard;
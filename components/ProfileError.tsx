@@ -0,0 +1,31 @@
+import React from 'react';
+import { AgentProfileError } from '../services/agentProfile';
+
+interface ProfileErrorProps {
+  error: unknown;
+}
+
+/** Shown instead of the app when the deployment's agent profile cannot be used. */
+const ProfileError: React.FC<ProfileErrorProps> = ({ error }) => {
+  const message = error instanceof AgentProfileError
+    ? error.message.split('\n')[0]
+    : 'The agent profile could not be loaded.';
+  const issues = error instanceof AgentProfileError ? error.issues : [String(error)];
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-slate-900">
+      <div role="alert" className="max-w-xl w-full p-8 rounded-3xl bg-red-950/40 border border-red-500/30 space-y-4">
+        <h1 className="text-xl font-bold text-red-300">Configuration error</h1>
+        <p className="text-slate-200">{message}</p>
+        {issues.length > 0 && (
+          <ul className="list-disc pl-5 space-y-1 text-sm font-mono text-red-200">
+            {issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+        <p className="text-xs text-slate-400">Fix <code>public/agent-profile.json</code> and reload the page.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileError;
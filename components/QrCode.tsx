@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import QRCode from 'qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+/** Modules of light border required around the symbol for reliable scanning. */
+const QUIET_ZONE = 4;
+
+/**
+ * Renders `value` as a QR code SVG. Uses the highest error correction level so
+ * the symbol still scans with a logo overlaid on its centre.
+ */
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 192, className }) => {
+  const { path, dimension } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'H' });
+    let d = '';
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) d += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { path: d, dimension: modules.size + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#0f172a" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { ConsultationRecord } from '../types';
+import {
+  REDACTION_CATEGORIES,
+  REDACTION_PLACEHOLDERS,
+  RedactionCategory,
+  createRedactor,
+  loadRedactionSettings,
+  parseNameList,
+  saveRedactionSettings,
+} from '../services/redaction';
+import { MessageKey, useI18n } from '../i18n';
+
+interface RedactionPreviewProps {
+  record: ConsultationRecord;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<RedactionCategory, MessageKey> = {
+  name: 'redaction.category.name',
+  email: 'redaction.category.email',
+  phone: 'redaction.category.phone',
+  address: 'redaction.category.address',
+  card: 'redaction.category.card',
+  id: 'redaction.category.id',
+};
+
+/**
+ * Shows what a redacted export will hide, entry by entry, and edits the list
+ * of sensitive names. The list and the "redact saved consultations" choice
+ * are kept on this device when the preview is closed.
+ */
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({ record, onClose }) => {
+  const { t } = useI18n();
+  const [initial] = useState(loadRedactionSettings);
+  const [namesDraft, setNamesDraft] = useState(() => initial.names.join('\n'));
+  const [redactSaved, setRedactSaved] = useState(initial.redactSaved);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const names = useMemo(() => parseNameList(namesDraft), [namesDraft]);
+
+  const entries = useMemo(() => {
+    const redactor = createRedactor(names);
+    return record.transcriptions.map(entry => ({ entry, segments: redactor.segments(entry.text) }));
+  }, [record, names]);
+
+  const counts = useMemo(() => {
+    const tally = Object.fromEntries(REDACTION_CATEGORIES.map(category => [category, 0])) as Record<RedactionCategory, number>;
+    entries.forEach(({ segments }) => segments.forEach(({ category }) => category && tally[category]++));
+    return tally;
+  }, [entries]);
+  const total = REDACTION_CATEGORIES.reduce((sum, category) => sum + counts[category], 0);
+  const shown = changedOnly ? entries.filter(({ segments }) => segments.some(segment => segment.category)) : entries;
+
+  const close = () => {
+    saveRedactionSettings({ names, redactSaved });
+    onClose();
+  };
+
+  const labelClass = 'text-[10px] font-bold uppercase tracking-widest text-slate-500';
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-slate-950/80 backdrop-blur-md p-4 animate-in fade-in duration-200 normal-case tracking-normal font-normal text-left">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-3xl p-6 gap-5 shadow-2xl">
+        <div>
+          <h3 className="text-lg font-semibold text-white">{t('redaction.title')}</h3>
+          <p className="text-xs text-slate-400 mt-1">{t('redaction.intro')}</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-5 min-h-0 flex-1">
+          <div className="space-y-4">
+            <label className="block space-y-2">
+              <span className={labelClass}>{t('redaction.names')}</span>
+              <textarea
+                value={namesDraft}
+                onChange={e => setNamesDraft(e.target.value)}
+                rows={6}
+                placeholder={t('redaction.namesPlaceholder')}
+                className="w-full bg-black/20 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500/50"
+              />
+              <span className="block text-xs text-slate-500">{t('redaction.namesHint')}</span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={redactSaved} onChange={e => setRedactSaved(e.target.checked)} className="mt-1 accent-blue-500" />
+              <span>
+                {t('redaction.redactSaved')}
+                <span className="block text-xs text-slate-500">{t('redaction.redactSavedNote')}</span>
+              </span>
+            </label>
+            <div className="space-y-1">
+              <h4 className={labelClass}>{total ? t('redaction.summary', { count: total }) : t('redaction.none')}</h4>
+              {REDACTION_CATEGORIES.filter(category => counts[category]).map(category => (
+                <div key={category} className="flex justify-between text-xs text-slate-400">
+                  <span>{t(CATEGORY_LABELS[category])}</span>
+                  <span>{counts[category]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col min-h-0">
+            <label className="flex items-center gap-2 text-xs text-slate-400 mb-3 cursor-pointer">
+              <input type="checkbox" checked={changedOnly} onChange={e => setChangedOnly(e.target.checked)} className="accent-blue-500" />
+              {t('redaction.changedOnly')}
+            </label>
+            <div className="flex-1 overflow-y-auto space-y-3 pr-2 min-h-[200px]">
+              {shown.map(({ entry, segments }, i) => (
+                <p
+                  key={entry.id ?? `${entry.timestamp}-${i}`}
+                  className={`px-4 py-3 rounded-2xl text-sm leading-relaxed ${entry.type === 'user' ? 'bg-blue-600/20 text-blue-50 ml-8' : 'bg-white/5 text-slate-200 mr-8'}`}
+                >
+                  {segments.map((segment, j) =>
+                    segment.category ? (
+                      <span key={j}>
+                        <del className="text-red-300/80 bg-red-500/10 rounded px-0.5">{segment.text}</del>
+                        <ins className="no-underline ml-1 px-1 rounded bg-emerald-500/20 text-emerald-300 text-[11px] font-bold">
+                          {REDACTION_PLACEHOLDERS[segment.category]}
+                        </ins>
+                      </span>
+                    ) : (
+                      <React.Fragment key={j}>{segment.text}</React.Fragment>
+                    ),
+                  )}
+                </p>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <button onClick={close} className="w-full py-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-all">
+          {t('redaction.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPreview;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { ConsultationRecord } from '../types';
+import { deleteConsultation, listConsultations } from '../services/sessionStore';
+import IntakeCard from './IntakeCard';
+import TranscriptEntry from './TranscriptEntry';
+import ExportMenu from './ExportMenu';
+import StageTimeline, { STAGE_STYLES } from './StageTimeline';
+import { isIntakeEmpty } from '../services/intake';
+import { stageHistoryOf } from '../services/stageHistory';
+import { canDraftCaseBrief } from '../services/caseBrief';
+import { Translate, stageKey, useI18n } from '../i18n';
+
+interface SessionHistoryProps {
+  onBack: () => void;
+  onResume: (record: ConsultationRecord) => void;
+  onBrief: (record: ConsultationRecord) => void;
+}
+
+const summarize = (record: ConsultationRecord, t: Translate): string => {
+  const firstUserLine = record.transcriptions.find(entry => entry.type === 'user')?.text;
+  return record.intake.organization ?? firstUserLine ?? t('history.untitled');
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ onBack, onResume, onBrief }) => {
+  const { t } = useI18n();
+  const [records, setRecords] = useState<ConsultationRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ConsultationRecord | null>(null);
+
+  useEffect(() => {
+    listConsultations()
+      .then(setRecords)
+      .catch(err => {
+        console.error('Failed to load consultations:', err);
+        setError(t('history.loadFailed'));
+        setRecords([]);
+      });
+  }, [t]);
+
+  const handleDelete = async (record: ConsultationRecord) => {
+    if (!window.confirm(t('history.confirmDelete'))) return;
+    try {
+      await deleteConsultation(record.id);
+      setRecords(prev => prev?.filter(r => r.id !== record.id) ?? null);
+      if (selected?.id === record.id) setSelected(null);
+    } catch (err) {
+      console.error('Failed to delete consultation:', err);
+      setError(t('history.deleteFailed'));
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="w-full flex flex-col gap-6 h-[calc(100vh-250px)] max-h-[700px] animate-in fade-in duration-300">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <button onClick={() => setSelected(null)} className="px-6 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-400 font-medium transition-colors border border-white/5">
+            {t('history.backToList')}
+          </button>
+          <div className="flex gap-2">
+            {canDraftCaseBrief(selected) && (
+              <button onClick={() => onBrief(selected)} className="px-6 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 font-medium transition-colors border border-white/10">
+                {t('brief.open')}
+              </button>
+            )}
+            <button onClick={() => onResume(selected)} className="px-6 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-all">
+              {t('history.resumeConsultation')}
+            </button>
+          </div>
+        </div>
+        <StageTimeline history={stageHistoryOf(selected)} />
+        {!isIntakeEmpty(selected.intake) && <IntakeCard intake={selected.intake} />}
+        <div className="flex-1 bg-black/20 rounded-3xl border border-white/5 overflow-hidden flex flex-col p-6 backdrop-blur-md">
+          <div className="flex justify-between items-center mb-4 text-xs font-bold text-slate-500 uppercase tracking-widest">
+            <h3>{t('log.title')}</h3>
+            <div className="flex items-center gap-3">
+              <span>{new Date(selected.startedAt).toLocaleString()}</span>
+              <ExportMenu record={selected} />
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+            {selected.transcriptions.map((entry, i) => <TranscriptEntry key={i} entry={entry} />)}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full space-y-6 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold tracking-tight">{t('history.title')}</h2>
+        <button onClick={onBack} className="px-6 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-400 font-medium transition-colors border border-white/5">
+          {t('history.back')}
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-xl text-xs text-red-400">{error}</div>
+      )}
+
+      {records === null ? (
+        <p className="text-sm text-slate-500">{t('history.loading')}</p>
+      ) : records.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('history.empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {records.map(record => (
+            <li key={record.id} className="bg-white/5 p-5 rounded-2xl border border-white/10 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  {record.crisisStage && (
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-tighter ${STAGE_STYLES[record.crisisStage.stage]}`}>
+                      {t(stageKey(record.crisisStage.stage))}
+                    </span>
+                  )}
+                  <span className="text-xs text-slate-500">{new Date(record.updatedAt).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-slate-200 truncate">{summarize(record, t)}</p>
+                <p className="text-xs text-slate-500">{t('log.entries', { count: record.transcriptions.length })}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => setSelected(record)} className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 text-sm font-medium transition-colors border border-white/10">
+                  {t('history.review')}
+                </button>
+                <button onClick={() => onResume(record)} className="px-4 py-2 rounded-xl bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 text-sm font-medium transition-colors border border-blue-500/30">
+                  {t('history.resume')}
+                </button>
+                <button onClick={() => handleDelete(record)} className="px-4 py-2 rounded-xl bg-red-600/10 hover:bg-red-600/20 text-red-400 text-sm font-medium transition-colors border border-red-500/20">
+                  {t('history.delete')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { CrisisStageName } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+interface StageChecklistProps {
+  stage: CrisisStageName;
+}
+
+const CHECKLISTS: Record<CrisisStageName, { title: MessageKey; items: MessageKey[] }> = {
+  Before: {
+    title: 'checklist.Before.title',
+    items: ['checklist.Before.1', 'checklist.Before.2', 'checklist.Before.3', 'checklist.Before.4'],
+  },
+  During: {
+    title: 'checklist.During.title',
+    items: ['checklist.During.1', 'checklist.During.2', 'checklist.During.3', 'checklist.During.4', 'checklist.During.5'],
+  },
+  After: {
+    title: 'checklist.After.title',
+    items: ['checklist.After.1', 'checklist.After.2', 'checklist.After.3', 'checklist.After.4'],
+  },
+};
+
+const ACCENTS: Record<CrisisStageName, string> = {
+  Before: 'border-blue-500/20 accent-blue-500',
+  During: 'border-red-500/30 accent-red-500',
+  After: 'border-emerald-500/20 accent-emerald-500',
+};
+
+/** Practical next steps for the current stage; ticks are only kept for this visit. */
+const StageChecklist: React.FC<StageChecklistProps> = ({ stage }) => {
+  const { t } = useI18n();
+  const [done, setDone] = useState<Set<MessageKey>>(new Set());
+  const { title, items } = CHECKLISTS[stage];
+
+  const toggle = (item: MessageKey) => setDone(prev => {
+    const next = new Set(prev);
+    if (!next.delete(item)) next.add(item);
+    return next;
+  });
+
+  return (
+    <div className={`mt-4 w-full max-w-lg px-6 py-4 bg-white/5 border rounded-2xl animate-in fade-in slide-in-from-top-2 ${ACCENTS[stage]}`}>
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t(title)}</h4>
+        <span className="text-[10px] text-slate-500">{done.size}/{items.length}</span>
+      </div>
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li key={item}>
+            <label className="flex items-start gap-3 text-xs text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={done.has(item)} onChange={() => toggle(item)} className="mt-0.5" />
+              <span className={done.has(item) ? 'line-through text-slate-500' : ''}>{t(item)}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default StageChecklist;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CrisisStageChange, CrisisStageName } from '../types';
+import { stageKey, useI18n } from '../i18n';
+
+interface StageTimelineProps {
+  history: CrisisStageChange[];
+}
+
+export const STAGE_STYLES: Record<CrisisStageName, string> = {
+  Before: 'bg-blue-500/20 text-blue-400',
+  During: 'bg-red-500/20 text-red-400',
+  After: 'bg-emerald-500/20 text-emerald-400',
+};
+
+const STAGE_DOTS: Record<CrisisStageName, string> = {
+  Before: 'bg-blue-500',
+  During: 'bg-red-500',
+  After: 'bg-emerald-500',
+};
+
+/** Every stage the agent has assigned, in order, with the latest reasoning underneath. */
+const StageTimeline: React.FC<StageTimelineProps> = ({ history }) => {
+  const { t } = useI18n();
+  if (history.length === 0) return null;
+  const latest = history[history.length - 1];
+
+  return (
+    <div className="mt-4 w-full max-w-lg px-6 py-4 bg-white/5 border border-white/10 rounded-2xl animate-in fade-in slide-in-from-top-2">
+      <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-3">{t('timeline.title')}</h4>
+      <ol className="flex flex-wrap items-center gap-y-2">
+        {history.map((change, i) => {
+          const isLatest = i === history.length - 1;
+          return (
+            <li key={`${change.stage}-${change.at}`} className="flex items-center">
+              {i > 0 && <span className="w-6 h-px bg-white/20 mx-1" aria-hidden="true" />}
+              <div
+                className={`flex items-center gap-2 px-2 py-1 rounded-lg ${isLatest ? STAGE_STYLES[change.stage] : 'text-slate-500'}`}
+                title={change.reasoning}
+              >
+                <span className={`w-2 h-2 rounded-full ${STAGE_DOTS[change.stage]} ${isLatest ? 'animate-pulse' : 'opacity-50'}`} />
+                <span className="text-[10px] font-bold uppercase tracking-tighter">{t(stageKey(change.stage))}</span>
+                <time className="text-[10px] opacity-70" dateTime={new Date(change.at).toISOString()}>
+                  {new Date(change.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </time>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      <p className="text-xs text-slate-400 italic mt-2">"{latest.reasoning}"</p>
+    </div>
+  );
+};
+
+export default StageTimeline;
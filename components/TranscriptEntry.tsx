@@ -0,0 +1,112 @@
+import React from 'react';
+import { ScheduledCallback, Transcription } from '../types';
+import { useI18n } from '../i18n';
+import { checkSharedLink } from '../services/linkPolicy';
+import { buildCallbackInvite, formatSlotTime } from '../services/scheduling';
+import { downloadFile } from '../services/exportFormats';
+import { useAgentProfile } from './AgentProfileProvider';
+
+interface TranscriptEntryProps {
+  entry: Transcription;
+}
+
+const LinkCard: React.FC<{ title: string; url: string }> = ({ title, url }) => {
+  const { t } = useI18n();
+  const { profile, localized } = useAgentProfile();
+  // Re-checked on render so records saved before a policy change cannot smuggle in a link.
+  const check = checkSharedLink(url, profile.links);
+
+  if (check.ok === false) {
+    return (
+      <div className="w-full max-w-sm p-4 bg-slate-800/60 rounded-2xl border border-white/10 text-xs text-slate-400 space-y-1">
+        <div className="font-semibold text-slate-300">{title}</div>
+        <div>{t('log.linkBlocked')}</div>
+      </div>
+    );
+  }
+
+  const { resource, hostname } = check;
+  return (
+    <div className="w-full max-w-sm p-4 bg-gradient-to-br from-blue-600/20 to-slate-800/80 rounded-2xl border border-blue-500/30 shadow-lg space-y-3 animate-in slide-in-from-left-4">
+      <div className="flex items-center gap-3">
+        {resource?.favicon ? (
+          <img src={resource.favicon} alt="" className="w-8 h-8 rounded-lg bg-white/10 object-contain" />
+        ) : (
+          <div className="w-8 h-8 rounded-lg bg-blue-600/30 flex items-center justify-center text-sm font-bold text-blue-200">
+            {(resource?.siteName ?? hostname).charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div className="min-w-0">
+          <div className="text-sm font-semibold text-white truncate">{title}</div>
+          <div className="text-[10px] uppercase tracking-widest text-slate-400 truncate">{resource?.siteName ?? hostname}</div>
+        </div>
+      </div>
+      {resource && <p className="text-xs text-slate-300 leading-relaxed">{localized(resource.description)}</p>}
+      <a href={check.url} target="_blank" rel="noopener noreferrer" className="block w-full text-center py-2 bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold rounded-xl transition-all">
+        {t('log.viewResource')}
+      </a>
+    </div>
+  );
+};
+
+const CallbackCard: React.FC<{ callback: ScheduledCallback }> = ({ callback }) => {
+  const { t, language } = useI18n();
+  const { profile } = useAgentProfile();
+  const { consultantName, firmName } = profile.branding;
+  const start = Date.parse(callback.start);
+
+  const downloadInvite = () => {
+    const invite = buildCallbackInvite(callback, {
+      uid: `${callback.start}-${profile.id}@callback`,
+      summary: `Call with ${consultantName} (${firmName})`,
+      description: `Follow-up crisis consultation with ${consultantName}, requested through ${firmName}; ${consultantName} will confirm the time.`,
+      organizer: firmName,
+    });
+    downloadFile(invite, `${profile.id}-callback-${callback.start.slice(0, 10)}.ics`, 'text/calendar');
+  };
+
+  return (
+    <div className="w-full max-w-sm p-4 bg-gradient-to-br from-emerald-600/20 to-slate-800/80 rounded-2xl border border-emerald-500/30 shadow-lg space-y-3 animate-in slide-in-from-left-4">
+      <div className="text-[10px] uppercase tracking-widest font-bold text-emerald-300">{t('log.callbackRequested')}</div>
+      <div>
+        <div className="text-sm font-semibold text-white">{formatSlotTime(start, callback.timeZone, language)}</div>
+        <div className="text-xs text-slate-400">{t('log.callbackYourTime', { timeZone: callback.timeZone })}</div>
+      </div>
+      <div className="text-xs text-slate-300">
+        {t('log.callbackConsultantTime', { name: consultantName, place: callback.windowLabel, time: formatSlotTime(start, callback.windowTimeZone, language) })}
+      </div>
+      <button onClick={downloadInvite} className="block w-full text-center py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold rounded-xl transition-all">
+        {t('log.addToCalendar')}
+      </button>
+    </div>
+  );
+};
+
+const TranscriptEntry: React.FC<TranscriptEntryProps> = ({ entry }) => {
+  const { t } = useI18n();
+  const partial = entry.status === 'partial';
+
+  return (
+    <div className={`flex flex-col ${entry.type === 'user' ? 'items-end' : 'items-start'}`}>
+      {entry.type === 'link' ? (
+        <LinkCard title={entry.metadata?.title ?? entry.text} url={entry.metadata?.url ?? ''} />
+      ) : entry.type === 'callback' && entry.metadata?.callback ? (
+        <CallbackCard callback={entry.metadata.callback} />
+      ) : (
+        <div className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm ${
+          entry.type === 'user' ? 'bg-blue-600/10 text-blue-200 border border-blue-500/20' : 'bg-slate-800/50 text-slate-200 border border-white/5'
+        } ${partial ? 'border-dashed' : ''}`}>
+          {entry.text}
+          {partial && <span className="inline-block w-1.5 h-3.5 ml-1 align-middle bg-current opacity-60 animate-pulse" aria-hidden="true" />}
+        </div>
+      )}
+      {(partial || entry.status === 'interrupted') && (
+        <span className="mt-1 px-1 text-[10px] uppercase tracking-widest text-slate-500">
+          {partial ? t('log.live') : t('log.interrupted')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptEntry;
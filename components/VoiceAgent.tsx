@@ -1,293 +1,593 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { Transcription } from '../types';
-import { decode, decodeAudioData, createBlob } from '../services/audioUtils';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { LiveServerMessage } from '@google/genai';
+import { AudioDeviceSelection, ConsultationRecord, CrisisIntake, CrisisStage, CrisisStageChange, Transcription, VoiceConfig } from '../types';
+import { decode, decodeAudioData, createPcmBlob } from '../services/audioUtils';
+import { CaptureFrameMessage, createCaptureNode } from '../services/captureWorklet';
+import { PlaybackScheduler, createPlaybackScheduler } from '../services/playbackScheduler';
+import { createVoiceActivityDetector, measureLevel } from '../services/voiceActivity';
+import { MAX_RECORDING_MS, SessionRecorder, createSessionRecorder } from '../services/sessionRecorder';
+import { exportRecording } from '../services/exportFormats';
+import { LIVE_FIXED_CONFIG, LIVE_MODEL, LiveSession, LiveTransport } from '../services/liveTransport';
+import { isCapacityError } from '../services/backend';
+import { MicProblem, applyOutputDevice, classifyMicError, micConstraints } from '../services/audioDevices';
+import { ResumeReason, buildResumeTurns } from '../services/sessionContext';
+import { createConsultationId, saveConsultation } from '../services/sessionStore';
+import { isIntakeEmpty } from '../services/intake';
+import { appendStage, currentStage, stageHistoryOf } from '../services/stageHistory';
+import { requestedCallbackStarts } from '../services/scheduling';
+import { TranscriptEvent, reduceTranscript } from '../services/transcript';
+import { ToolContext, createSessionTools, dispatchToolCall, toolDeclarations } from '../services/tools';
+import IntakeCard from './IntakeCard';
+import TranscriptEntry from './TranscriptEntry';
+import ExportMenu from './ExportMenu';
+import StageTimeline from './StageTimeline';
+import StageChecklist from './StageChecklist';
+import QrCode from './QrCode';
+import { buildWhatsAppLink, buildWhatsAppMessage } from '../services/whatsapp';
+import { buildCallbackFlagNote, buildLanguageSwitchNote, buildOperatorGuidanceNote, buildSystemInstruction } from '../services/systemInstruction';
+import { OPERATOR_RELAY_ENABLED, SessionMirrorLink, connectSessionMirror } from '../services/operatorRelay';
+import { MAX_MIRRORED_ENTRIES } from '../services/operatorProtocol';
+import { MessageKey, useI18n } from '../i18n';
+import { useAgentProfile } from './AgentProfileProvider';
 
 interface VoiceAgentProps {
-  onExit: () => void;
+  transport: LiveTransport;
+  voiceConfig: VoiceConfig;
+  /** Microphone and speaker chosen in the device check. */
+  devices: AudioDeviceSelection;
+  /** A saved consultation to continue instead of starting a new one. */
+  resumeFrom?: ConsultationRecord;
+  /** Called with the consultation as it stood when the session ended. */
+  onExit: (record: ConsultationRecord) => void;
 }
 
-const setCrisisStageTool: FunctionDeclaration = {
-  name: 'set_crisis_stage',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Categorizes the current situation into one of three stages based on the user\'s description.',
-    properties: {
-      stage: {
-        type: Type.STRING,
-        enum: ['Before', 'During', 'After'],
-        description: 'The stage of the crisis.',
-      },
-      reasoning: {
-        type: Type.STRING,
-        description: 'A brief explanation of why this stage was chosen.',
-      },
-    },
-    required: ['stage', 'reasoning'],
-  },
-};
+type ConsultationMode = 'voice' | 'text';
+type AgentStatus = 'idle' | 'connecting' | 'reconnecting' | 'listening' | 'speaking';
 
-const shareLinkTool: FunctionDeclaration = {
-  name: 'share_link',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Shares a specific URL/resource visually in the chat log for the user. Use this instead of reading URLs aloud.',
-    properties: {
-      title: {
-        type: Type.STRING,
-        description: 'The display title for the link (e.g., "Rich\'s Recommendations", "The Crisis Show").',
-      },
-      url: {
-        type: Type.STRING,
-        description: 'The full destination URL.',
-      },
-    },
-    required: ['title', 'url'],
-  },
+/** Backoff schedule for automatic reconnection; giving up after the last delay. */
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 15000];
+
+const MIC_NOTICES: Record<MicProblem, MessageKey> = {
+  denied: 'mic.declined',
+  notFound: 'mic.notFound',
+  unavailable: 'mic.unavailable',
 };
 
-const VoiceAgent: React.FC<VoiceAgentProps> = ({ onExit }) => {
+const describeMicError = (err: unknown): MessageKey => MIC_NOTICES[classifyMicError(err)];
+
+const VoiceAgent: React.FC<VoiceAgentProps> = ({ transport, voiceConfig, devices, resumeFrom, onExit }) => {
+  const { language, t } = useI18n();
+  const { profile } = useAgentProfile();
+  const { links, escalation } = profile;
+  const { consultantName } = profile.branding;
   const [isActive, setIsActive] = useState(false);
-  const [status, setStatus] = useState<'idle' | 'connecting' | 'listening' | 'speaking'>('idle');
-  const [transcriptions, setTranscriptions] = useState<Transcription[]>([]);
-  const [currentInput, setCurrentInput] = useState('');
-  const [currentOutput, setCurrentOutput] = useState('');
+  const [status, setStatus] = useState<AgentStatus>('idle');
+  const [transcriptions, setTranscriptions] = useState<Transcription[]>(
+    () => reduceTranscript(resumeFrom?.transcriptions ?? [], { type: 'closeAll' })
+  );
   const [showWhatsApp, setShowWhatsApp] = useState(false);
-  const [crisisStage, setCrisisStage] = useState<{ stage: 'Before' | 'During' | 'After'; reasoning: string } | null>(null);
+  const [stageHistory, setStageHistory] = useState<CrisisStageChange[]>(() => resumeFrom ? stageHistoryOf(resumeFrom) : []);
+  const crisisStage = currentStage(stageHistory);
+  const [intake, setIntake] = useState<CrisisIntake>(resumeFrom?.intake ?? {});
+  const [mode, setMode] = useState<ConsultationMode>('voice');
+  const [micNotice, setMicNotice] = useState<MessageKey | null>(null);
+  const [draft, setDraft] = useState('');
+  const [connectionLost, setConnectionLost] = useState(false);
+  const [linesBusy, setLinesBusy] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [talking, setTalking] = useState(false);
+  const [speechDetected, setSpeechDetected] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [recordedMs, setRecordedMs] = useState(0);
+  const [recordingSaved, setRecordingSaved] = useState(true);
+  const [callbackFlagged, setCallbackFlagged] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const audioContextInRef = useRef<AudioContext | null>(null);
   const audioContextOutRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const playerRef = useRef<PlaybackScheduler | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const captureNodesRef = useRef<AudioNode[]>([]);
+  const modeRef = useRef<ConsultationMode>('voice');
+  const mutedRef = useRef(false);
+  const pushToTalkRef = useRef(false);
+  const talkingRef = useRef(false);
+  const vadRef = useRef(createVoiceActivityDetector());
+  const speechDetectedRef = useRef(false);
+  /** True while audio frames are flowing, so the model gets exactly one stream-end when they stop. */
+  const audioFlowingRef = useRef(false);
+  /** Only set while the caller has opted in to recording; kept after stopping so it can be downloaded. */
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const recordingRef = useRef(false);
   const isConnectingRef = useRef(false);
+  const endedRef = useRef(false);
+  const transcriptionsRef = useRef<Transcription[]>([]);
+  const crisisStageRef = useRef<CrisisStage | null>(null);
+  const stageHistoryRef = useRef<CrisisStageChange[]>([]);
+  const intakeRef = useRef<CrisisIntake>(resumeFrom?.intake ?? {});
+  const consultationRef = useRef({
+    id: resumeFrom?.id ?? createConsultationId(),
+    startedAt: resumeFrom?.startedAt ?? Date.now(),
+  });
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const resumeHandleRef = useRef<string | null>(null);
+  const languageRef = useRef(language);
+  const voiceConfigRef = useRef(voiceConfig);
+  const mirrorRef = useRef<SessionMirrorLink | null>(null);
+  /** Kept apart from the transcript, which only catches up on render, so a repeated request in one batch is caught. */
+  const requestedCallbacksRef = useRef<number[]>(requestedCallbackStarts(resumeFrom?.transcriptions ?? []));
+  /** Operator notes that arrived while the live session was down; sent once it reopens. */
+  const pendingNotesRef = useRef<string[]>([]);
+  /** Set when the current session is closed on purpose to reopen it with new settings. */
+  const restartReasonRef = useRef<ResumeReason | null>(null);
+
+  transcriptionsRef.current = transcriptions;
+  crisisStageRef.current = crisisStage;
+  stageHistoryRef.current = stageHistory;
+  intakeRef.current = intake;
+
+  // Functional updates keep streamed turns correct no matter which closure receives the event.
+  const updateTranscript = useCallback((event: TranscriptEvent) => {
+    setTranscriptions(prev => reduceTranscript(prev, event));
+  }, []);
 
-  const SYSTEM_INSTRUCTION = `You are a professional, efficient, and empathetic voice agent for Rich Klein Crisis Management. Your primary role is to listen to users' crises and provide reassuring, high-level strategic advice. 
+  const sessionTools = useMemo(() => createSessionTools(profile.tools), [profile]);
+  const toolContext = useMemo<ToolContext>(() => ({
+    addTranscription: (entry) => updateTranscript({ type: 'append', entry }),
+    getRequestedCallbacks: () => requestedCallbacksRef.current,
+    addRequestedCallback: (start) => {
+      requestedCallbacksRef.current = [...requestedCallbacksRef.current, start];
+    },
+    getCrisisStage: () => currentStage(stageHistoryRef.current),
+    setCrisisStage: (stage) => {
+      stageHistoryRef.current = appendStage(stageHistoryRef.current, stage);
+      setStageHistory(stageHistoryRef.current);
+    },
+    getIntake: () => intakeRef.current,
+    setIntake: (updated) => {
+      intakeRef.current = updated;
+      setIntake(updated);
+    },
+    linkPolicy: profile.links,
+    scheduling: profile.scheduling,
+  }), [profile]);
 
-VOICE & PERSONA:
-- Use a natural, warm female tone (Kore).
-- Speak with a brisk, professional pace.
-- Sound like a seasoned strategist. Be direct, authoritative, and responsive.
 
-CRITICAL INITIAL GREETING: 
-Your very first words MUST be: "Welcome to Rich Klein Crisis Management. Wherever you are in the world at whatever time, we are here to help. Please describe your crisis or the kind of services you and your organization may need."
+  const stopPlayback = useCallback(() => {
+    playerRef.current?.interrupt();
+    if (recordingRef.current) recorderRef.current?.truncateAgent();
+  }, []);
 
-PROTOCOL & CLASSIFICATION:
-1. **Initial Description**: Let user describe the situation.
-2. **Auto-Categorization**: Once the user describes their situation, you MUST call the 'set_crisis_stage' tool.
-3. **Industry/Location**: Ask for industry and location.
-4. **Timeline & Stage Advice**: State that Rich splits his time between the U.S. and Italy.
-   - **BEFORE**: Focus on resilience (Media Training, Vulnerability Audits).
-   - **DURING**: Focus on containment. DIRECT TO WHATSAPP IMMEDIATELY.
-   - **AFTER**: Focus on recovery.
-5. **IMMEDIATE ACCESS**: If the user asks for immediate access to Rich or is in a 'DURING' crisis, tell them to use the "24/7 Urgent Support" WhatsApp button or the QR code on the screen.
-6. **WAITING RESOURCE**: Suggest "The Crisis Show" via the red button.
+  const stopCapture = useCallback(() => {
+    captureNodesRef.current.forEach(node => {
+      node.disconnect();
+      if (node instanceof AudioWorkletNode) node.port.onmessage = null;
+    });
+    captureNodesRef.current = [];
+    analyserRef.current = null;
+    speechDetectedRef.current = false;
+    setSpeechDetected(false);
+    if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+  }, []);
 
-CRITICAL POLICY: DO NOT refer users to legal counsel first. We are their first line of defense in the court of public opinion.`;
+  const startCapture = useCallback(async (stream: MediaStream) => {
+    const audioCtxIn = audioContextInRef.current;
+    if (!audioCtxIn) return;
+
+    const source = audioCtxIn.createMediaStreamSource(stream);
+    const analyser = audioCtxIn.createAnalyser();
+    analyser.fftSize = 256;
+    analyserRef.current = analyser;
+    source.connect(analyser);
+    captureNodesRef.current = [source, analyser];
+
+    // Resampling to 16 kHz and Int16 conversion happen in the worklet, off the main thread.
+    const captureNode = await createCaptureNode(audioCtxIn);
+    if (streamRef.current !== stream) return;
+    const levelBuffer = new Float32Array(analyser.fftSize);
+    let previousFrame: CaptureFrameMessage | null = null;
+    vadRef.current.reset();
+    audioFlowingRef.current = false;
+
+    const send = (params: Parameters<LiveSession['sendRealtimeInput']>[0]) => {
+      sessionPromiseRef.current?.then((session) => {
+        if (session) session.sendRealtimeInput(params);
+      }).catch(() => {});
+    };
 
-  const initializeSession = useCallback(async () => {
-    if (isConnectingRef.current) return;
-    isConnectingRef.current = true;
+    captureNode.port.onmessage = (event: MessageEvent<CaptureFrameMessage>) => {
+      if (modeRef.current !== 'voice') return;
+      const speaking = vadRef.current.update(measureLevel(analyser, levelBuffer), performance.now());
+      if (speaking !== speechDetectedRef.current) {
+        speechDetectedRef.current = speaking;
+        setSpeechDetected(speaking);
+      }
 
+      // Push-to-talk sends everything while held; otherwise only frames the VAD hears speech in.
+      const open = !mutedRef.current && (pushToTalkRef.current ? talkingRef.current : speaking);
+      if (open) {
+        // Include the frame before speech onset so the first syllable is not clipped.
+        if (!audioFlowingRef.current && previousFrame) send({ media: createPcmBlob(previousFrame.pcm, previousFrame.sampleRate) });
+        send({ media: createPcmBlob(event.data.pcm, event.data.sampleRate) });
+        if (recordingRef.current) recorderRef.current?.addCallerFrame(event.data.pcm, event.data.sampleRate);
+        audioFlowingRef.current = true;
+      } else if (audioFlowingRef.current) {
+        send({ audioStreamEnd: true });
+        audioFlowingRef.current = false;
+      }
+      previousFrame = event.data;
+    };
+    source.connect(captureNode);
+    captureNodesRef.current.push(captureNode);
+  }, []);
+
+  const switchMode = useCallback(async (next: ConsultationMode) => {
+    if (next === modeRef.current) return;
+    if (next === 'text') {
+      modeRef.current = 'text';
+      setMode('text');
+      stopCapture();
+      stopPlayback();
+      if (isActive) setStatus('listening');
+      return;
+    }
     try {
-      setStatus('connecting');
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(devices) });
+      streamRef.current = stream;
+      modeRef.current = 'voice';
+      setMode('voice');
+      setMicNotice(null);
+      if (isActive) await startCapture(stream);
+    } catch (err) {
+      console.error('Microphone unavailable:', err);
+      setMicNotice(describeMicError(err));
+    }
+  }, [devices, isActive, startCapture, stopCapture, stopPlayback]);
 
-      // Initialize Audio Contexts
-      const audioCtxIn = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const audioCtxOut = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      audioContextInRef.current = audioCtxIn;
-      audioContextOutRef.current = audioCtxOut;
+  const toggleMute = useCallback(() => {
+    mutedRef.current = !mutedRef.current;
+    setMuted(mutedRef.current);
+  }, []);
 
-      // Resume contexts if they are suspended (browser policy)
-      if (audioCtxIn.state === 'suspended') await audioCtxIn.resume();
-      if (audioCtxOut.state === 'suspended') await audioCtxOut.resume();
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+  const togglePushToTalk = useCallback(() => {
+    pushToTalkRef.current = !pushToTalkRef.current;
+    talkingRef.current = false;
+    setPushToTalk(pushToTalkRef.current);
+    setTalking(false);
+  }, []);
+
+  const setTalkingState = useCallback((next: boolean) => {
+    if (talkingRef.current === next) return;
+    talkingRef.current = next;
+    setTalking(next);
+  }, []);
+
+  // Hold the spacebar to talk. While push-to-talk is on, Space belongs to it everywhere except
+  // text fields, so it cannot also activate whichever button happens to have focus.
+  useEffect(() => {
+    if (!pushToTalk || mode !== 'voice') return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setTalkingState(true);
+    };
+    const up = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setTalkingState(false);
+    };
+    const release = () => setTalkingState(false);
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', release);
+    };
+  }, [pushToTalk, mode, setTalkingState]);
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  const stopRecording = useCallback(() => {
+    recordingRef.current = false;
+    setRecording(false);
+  }, []);
+
+  const startRecording = useCallback(() => {
+    if (!window.confirm(t('recording.consent'))) return;
+    recorderRef.current = createSessionRecorder();
+    recordingRef.current = true;
+    setRecordedMs(0);
+    setRecording(true);
+    setRecordingSaved(false);
+  }, [t]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      const elapsed = recorderRef.current?.elapsedMs() ?? 0;
+      setRecordedMs(elapsed);
+      if (elapsed >= MAX_RECORDING_MS) stopRecording();
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [recording, stopRecording]);
+
+  const sendText = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || !sessionRef.current) return;
+    updateTranscript({ type: 'append', entry: { text, type: 'user', timestamp: Date.now(), status: 'final' } });
+    sessionRef.current.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    setDraft('');
+  }, [draft]);
+
+  // Tell the live model to carry on in the newly selected language.
+  useEffect(() => {
+    if (languageRef.current === language) return;
+    languageRef.current = language;
+    sessionRef.current?.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: buildLanguageSwitchNote(language) }] }],
+      turnComplete: true
+    });
+  }, [language]);
+
+  // The live API fixes the voice at connect time, so a change means reopening the session.
+  useEffect(() => {
+    const previous = voiceConfigRef.current;
+    if (previous.voiceName === voiceConfig.voiceName && previous.pace === voiceConfig.pace) return;
+    voiceConfigRef.current = voiceConfig;
+    if (!sessionRef.current) return;
+    restartReasonRef.current = 'settings';
+    stopPlayback();
+    sessionRef.current.close();
+  }, [voiceConfig, stopPlayback]);
+
+  const connectSession = useCallback(async (resume: ResumeReason | null) => {
+    let opened = false;
+    let dropped = false;
+    const resumeHandle = resume === 'reconnect' ? resumeHandleRef.current : null;
+
+    // Called for both onerror and onclose, which can fire back to back for one drop.
+    const handleDrop = () => {
+      if (dropped) return;
+      dropped = true;
+      sessionRef.current = null;
+      sessionPromiseRef.current = null;
+      setIsActive(false);
+      stopPlayback();
+      updateTranscript({ type: 'closeAll' });
+      if (endedRef.current) {
+        setStatus('idle');
+        return;
+      }
+      const restartReason = restartReasonRef.current;
+      if (restartReason) {
+        restartReasonRef.current = null;
+        setStatus('reconnecting');
+        connectSession(restartReason);
+        return;
+      }
+      // A handle the server refused to resume from is not worth retrying.
+      if (!opened) resumeHandleRef.current = null;
+
+      const attempt = reconnectAttemptRef.current++;
+      if (attempt >= RECONNECT_DELAYS_MS.length) {
+        setStatus('idle');
+        setConnectionLost(true);
+        return;
+      }
+      setStatus('reconnecting');
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        connectSession('reconnect');
+      }, RECONNECT_DELAYS_MS[attempt]);
+    };
+
+    try {
+      const sessionPromise = transport.connect({
+        model: LIVE_MODEL,
         callbacks: {
           onopen: () => {
+            opened = true;
+            reconnectAttemptRef.current = 0;
             setIsActive(true);
             setStatus('listening');
-
-            const source = audioCtxIn.createMediaStreamSource(stream);
-            const scriptProcessor = audioCtxIn.createScriptProcessor(4096, 1, 1);
-            
-            const analyser = audioCtxIn.createAnalyser();
-            analyser.fftSize = 256;
-            analyserRef.current = analyser;
-            source.connect(analyser);
-
-            scriptProcessor.onaudioprocess = (event) => {
-              const inputData = event.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then((session) => {
-                if (session) session.sendRealtimeInput({ media: pcmBlob });
-              }).catch(() => {});
-            };
-
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioCtxIn.destination);
+            setConnectionLost(false);
+            setLinesBusy(false);
+            if (streamRef.current && captureNodesRef.current.length === 0) {
+              startCapture(streamRef.current).catch(err => console.error('Failed to start capture:', err));
+            }
           },
           onmessage: async (message: LiveServerMessage) => {
+            const resumption = message.sessionResumptionUpdate;
+            if (resumption?.resumable && resumption.newHandle) {
+              resumeHandleRef.current = resumption.newHandle;
+            }
+
             if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                if (fc.name === 'share_link') {
-                  const { title, url } = fc.args as any;
-                  setTranscriptions(prev => [
-                    ...prev,
-                    { text: `Shared Link: ${title}`, type: 'link', timestamp: Date.now(), metadata: { title, url } }
-                  ]);
-                  sessionPromise.then((session) => {
-                    session.sendToolResponse({
-                      functionResponses: { id: fc.id, name: fc.name, response: { result: "Link shared." } }
-                    });
-                  });
-                } else if (fc.name === 'set_crisis_stage') {
-                  const { stage, reasoning } = fc.args as any;
-                  setCrisisStage({ stage, reasoning });
-                  setTranscriptions(prev => [
-                    ...prev,
-                    { text: `Detected Crisis Stage: ${stage}`, type: 'model', timestamp: Date.now() }
-                  ]);
-                  sessionPromise.then((session) => {
-                    session.sendToolResponse({
-                      functionResponses: { id: fc.id, name: fc.name, response: { result: `Stage updated to ${stage}.` } }
-                    });
-                  });
-                }
+              const functionResponses = message.toolCall.functionCalls.map(fc => dispatchToolCall(sessionTools, fc, toolContext));
+              if (functionResponses.length) {
+                sessionPromise.then((session) => session.sendToolResponse({ functionResponses }));
               }
             }
 
-            if (message.serverContent?.outputTranscription) {
-              setCurrentOutput(prev => prev + message.serverContent!.outputTranscription!.text);
-            } else if (message.serverContent?.inputTranscription) {
-              setCurrentInput(prev => prev + message.serverContent!.inputTranscription!.text);
+            const content = message.serverContent;
+            if (content?.inputTranscription?.text) {
+              updateTranscript({ type: 'inputDelta', text: content.inputTranscription.text, at: Date.now() });
             }
-
-            if (message.serverContent?.turnComplete) {
-              setTranscriptions(prev => [
-                ...prev,
-                ...(currentInput ? [{ text: currentInput, type: 'user', timestamp: Date.now() } as Transcription] : []),
-                ...(currentOutput ? [{ text: currentOutput, type: 'model', timestamp: Date.now() } as Transcription] : [])
-              ]);
-              setCurrentInput('');
-              setCurrentOutput('');
+            if (content?.outputTranscription?.text) {
+              updateTranscript({ type: 'outputDelta', text: content.outputTranscription.text, at: Date.now() });
             }
 
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && audioContextOutRef.current) {
-              setStatus('speaking');
-              const ctx = audioContextOutRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+            // In text mode the reply is read from the output transcription instead of played.
+            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio && audioContextOutRef.current && playerRef.current && modeRef.current === 'voice') {
               try {
-                const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-                const source = ctx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(ctx.destination);
-                source.onended = () => {
-                  sourcesRef.current.delete(source);
-                  if (sourcesRef.current.size === 0) setStatus('listening');
-                };
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += audioBuffer.duration;
-                sourcesRef.current.add(source);
+                const audioBuffer = await decodeAudioData(decode(base64Audio), audioContextOutRef.current, 24000, 1);
+                const delay = playerRef.current.enqueue(audioBuffer);
+                if (recordingRef.current) recorderRef.current?.addAgentAudio(audioBuffer, delay);
               } catch (e) {
                 console.error('Audio decoding error:', e);
               }
             }
 
             if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => {
-                try { s.stop(); } catch(e) {}
-              });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setStatus('listening');
+              stopPlayback();
+              updateTranscript({ type: 'interrupted' });
+            }
+
+            if (message.serverContent?.turnComplete) {
+              updateTranscript({ type: 'turnComplete' });
             }
           },
           onerror: (err) => {
             console.error('Session error:', err);
-            setIsActive(false);
-            setStatus('idle');
+            handleDrop();
           },
           onclose: () => {
-            setIsActive(false);
-            setStatus('idle');
+            handleDrop();
           }
         },
         config: {
-          responseModalities: [Modality.AUDIO],
-          tools: [{ functionDeclarations: [shareLinkTool, setCrisisStageTool] }],
+          ...LIVE_FIXED_CONFIG,
+          tools: [{ functionDeclarations: toolDeclarations(sessionTools) }],
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceConfigRef.current.voiceName } }
           },
-          systemInstruction: SYSTEM_INSTRUCTION,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {}
+          systemInstruction: buildSystemInstruction(profile, languageRef.current, voiceConfigRef.current),
+          sessionResumption: resumeHandle ? { handle: resumeHandle } : {}
         }
       });
 
-      sessionRef.current = await sessionPromise;
+      sessionPromiseRef.current = sessionPromise;
+      const session = await sessionPromise;
+      if (dropped) return;
+      sessionRef.current = session;
+
+      // A resumed handle restores server-side context; a fresh session needs it re-seeded.
+      if (resume && !resumeHandle) {
+        session.sendClientContent({
+          turns: buildResumeTurns(transcriptionsRef.current, crisisStageRef.current, intakeRef.current, resume),
+          turnComplete: true
+        });
+      }
+      for (const text of pendingNotesRef.current.splice(0)) {
+        session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+      }
+    } catch (err) {
+      console.error('Failed to connect session:', err);
+      // The backend refused a token; backing off and retrying would only be refused again.
+      if (isCapacityError(err)) {
+        reconnectAttemptRef.current = RECONNECT_DELAYS_MS.length;
+        setLinesBusy(true);
+      }
+      handleDrop();
+    }
+  }, [transport, startCapture, stopPlayback, updateTranscript]);
+
+  const initializeSession = useCallback(async () => {
+    if (isConnectingRef.current) return;
+    isConnectingRef.current = true;
+
+    try {
+      setStatus('connecting');
+
+      // Initialize Audio Contexts. Capture runs at the device's native rate and is resampled in the worklet.
+      const audioCtxIn = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const audioCtxOut = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      
+      audioContextInRef.current = audioCtxIn;
+      audioContextOutRef.current = audioCtxOut;
+      // Status follows what is actually audible, not when chunks arrive.
+      playerRef.current = createPlaybackScheduler(audioCtxOut, {
+        onSpeakingChange: (speaking) => setStatus(current =>
+          speaking ? (current === 'listening' ? 'speaking' : current) : (current === 'speaking' ? 'listening' : current)
+        ),
+      });
+
+      // Resume contexts if they are suspended (browser policy)
+      if (audioCtxIn.state === 'suspended') await audioCtxIn.resume();
+      if (audioCtxOut.state === 'suspended') await audioCtxOut.resume();
+      try {
+        await applyOutputDevice(audioCtxOut, devices.outputId);
+      } catch (err) {
+        console.error('Speaker unavailable, using the default output:', err);
+      }
+
+      try {
+        streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(devices) });
+      } catch (err) {
+        console.error('Microphone unavailable:', err);
+        modeRef.current = 'text';
+        setMode('text');
+        setMicNotice(describeMicError(err));
+      }
+
+      await connectSession(resumeFrom ? 'return' : null);
     } catch (err) {
       console.error('Failed to init session:', err);
       setStatus('idle');
     } finally {
       isConnectingRef.current = false;
     }
-  }, [currentInput, currentOutput, SYSTEM_INSTRUCTION]);
-
-  const saveTranscription = useCallback(() => {
-    if (transcriptions.length === 0) return;
-    const header = `RICH KLEIN CRISIS MANAGEMENT - SESSION LOG\nCrisis Stage: ${crisisStage?.stage || 'Not Determined'}\nReasoning: ${crisisStage?.reasoning || 'N/A'}\nGenerated on: ${new Date().toLocaleString()}\n------------------------------------------------\n\n`;
-    const content = transcriptions.map(t => {
-      const date = new Date(t.timestamp).toLocaleTimeString();
-      const content = t.type === 'link' ? `SHARED LINK: ${t.metadata?.title} - ${t.metadata?.url}` : t.text;
-      return `[${date}] ${t.type.toUpperCase()}: ${content}`;
-    }).join('\n\n');
-    const blob = new Blob([header + content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `rich-klein-crisis-log-${new Date().toISOString().slice(0,10)}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, [transcriptions, crisisStage]);
+  }, [connectSession, devices, resumeFrom]);
+
+  const reconnectNow = useCallback(() => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setConnectionLost(false);
+    setStatus('reconnecting');
+    connectSession('reconnect');
+  }, [connectSession]);
+
+  const consultationRecord: ConsultationRecord = useMemo(() => ({
+    ...consultationRef.current,
+    updatedAt: Date.now(),
+    transcriptions,
+    crisisStage: crisisStage && { stage: crisisStage.stage, reasoning: crisisStage.reasoning },
+    stageHistory,
+    intake,
+  }), [transcriptions, stageHistory, intake]);
 
   useEffect(() => {
+    endedRef.current = false;
     initializeSession();
     return () => {
+      endedRef.current = true;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
       if (sessionRef.current) {
         try { sessionRef.current.close(); } catch(e) {}
       }
-      if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
+      stopCapture();
+      playerRef.current?.dispose();
       if (audioContextInRef.current) audioContextInRef.current.close().catch(() => {});
       if (audioContextOutRef.current) audioContextOutRef.current.close().catch(() => {});
     };
   }, []);
 
+  // The orb follows the agent's voice while it speaks and the caller's microphone otherwise.
   useEffect(() => {
-    if (!canvasRef.current || !analyserRef.current) return;
+    const analyser = status === 'speaking' ? playerRef.current?.analyser : analyserRef.current;
+    if (!canvasRef.current || !analyser) return;
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     let animationId: number;
-    const bufferLength = analyserRef.current.frequencyBinCount;
+    const bufferLength = analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
     const draw = () => {
       animationId = requestAnimationFrame(draw);
-      if (!analyserRef.current) return;
-      analyserRef.current.getByteFrequencyData(dataArray);
+      if (analyser !== analyserRef.current && analyser !== playerRef.current?.analyser) return;
+      analyser.getByteFrequencyData(dataArray);
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       const centerX = canvas.width / 2;
       const centerY = canvas.height / 2;
@@ -329,12 +629,80 @@ CRITICAL POLICY: DO NOT refer users to legal counsel first. We are their first l
     };
     draw();
     return () => cancelAnimationFrame(animationId);
-  }, [status]);
+  }, [status, mode]);
+
+  const downloadRecording = useCallback(() => {
+    if (!recorderRef.current) return;
+    exportRecording(consultationRecord, recorderRef.current.toWav(), profile);
+    setRecordingSaved(true);
+  }, [consultationRecord, profile]);
+
+  // The recording only lives in this tab, so leaving without downloading it loses it for good.
+  const exit = useCallback(() => {
+    if (!recordingSaved && !window.confirm(t('recording.discardConfirm'))) return;
+    stopRecording();
+    onExit(consultationRecord);
+  }, [recordingSaved, stopRecording, onExit, consultationRecord, t]);
+
+  const whatsAppLink = useMemo(() => {
+    const number = escalation.whatsappNumber;
+    if (!number) return null;
+    return buildWhatsAppLink(number, buildWhatsAppMessage({ firmName: profile.branding.firmName, crisisStage, intake, transcriptions }));
+  }, [escalation, profile, crisisStage, intake, transcriptions]);
+
+  // Moving into an active crisis escalates straight to the consultant; a resumed During consultation does not re-open it.
+  const seenStagesRef = useRef(stageHistory.length);
+  useEffect(() => {
+    if (stageHistory.length <= seenStagesRef.current) return;
+    seenStagesRef.current = stageHistory.length;
+    if (crisisStage?.stage === 'During') setShowWhatsApp(true);
+  }, [stageHistory.length, crisisStage]);
+
+  // Operator notes reach the model as a user turn, like the language switch note.
+  const sendNote = useCallback((text: string) => {
+    if (sessionRef.current) sessionRef.current.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    else pendingNotesRef.current.push(text);
+  }, []);
+
+  useEffect(() => {
+    if (!OPERATOR_RELAY_ENABLED) return;
+    const link = connectSessionMirror({
+      onGuidance: (text) => sendNote(buildOperatorGuidanceNote(text, consultantName)),
+      onCallbackFlag: (flagged) => {
+        setCallbackFlagged(flagged);
+        if (flagged) sendNote(buildCallbackFlagNote(consultantName));
+      },
+    });
+    mirrorRef.current = link;
+    return () => {
+      mirrorRef.current = null;
+      link.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    mirrorRef.current?.publish({
+      ...consultationRef.current,
+      updatedAt: Date.now(),
+      language,
+      status,
+      mode,
+      crisisStage: consultationRecord.crisisStage,
+      intake,
+      transcriptions: transcriptions.slice(-MAX_MIRRORED_ENTRIES),
+    });
+  }, [consultationRecord, language, status, mode]);
+
+  // Persist as the consultation happens so nothing is lost if the tab closes.
+  useEffect(() => {
+    if (transcriptions.length === 0 && !crisisStage && isIntakeEmpty(intake)) return;
+    saveConsultation(consultationRecord).catch(err => console.error('Failed to save consultation:', err));
+  }, [consultationRecord]);
 
   const transcriptEndRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
     transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [transcriptions, currentInput, currentOutput]);
+  }, [transcriptions]);
 
   return (
     <div className="w-full flex flex-col gap-8 h-[calc(100vh-250px)] max-h-[700px] relative">
@@ -349,31 +717,58 @@ CRITICAL POLICY: DO NOT refer users to legal counsel first. We are their first l
           <div className="text-center space-y-6 max-w-md">
             <h3 className="text-2xl font-bold text-white flex items-center justify-center gap-3">
               <span className="w-3 h-3 bg-emerald-500 rounded-full animate-pulse" />
-              Direct Emergency Line
+              {t('whatsapp.title')}
             </h3>
             
-            <div className="bg-white p-6 rounded-3xl inline-block shadow-2xl shadow-emerald-500/20 border-4 border-emerald-500/50">
-              <div className="w-48 h-48 bg-white relative flex items-center justify-center border-2 border-slate-100 p-2">
-                <div className="grid grid-cols-4 grid-rows-4 gap-1 w-full h-full opacity-80">
-                  {Array.from({length: 16}).map((_, i) => (
-                    <div key={i} className={`rounded-sm ${Math.random() > 0.4 ? 'bg-slate-900' : 'bg-transparent'}`} />
-                  ))}
+            {whatsAppLink ? (
+              <>
+                <div className="bg-white p-4 rounded-3xl inline-block shadow-2xl shadow-emerald-500/20 border-4 border-emerald-500/50">
+                  <div className="w-48 h-48 relative flex items-center justify-center">
+                    <QrCode value={whatsAppLink} className="w-full h-full" />
+                    <div className="absolute inset-0 flex items-center justify-center">
+                       <div className="bg-white p-1.5 rounded-xl shadow-lg border border-slate-100">
+                         <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="#25D366"><path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L0 24l6.335-1.662c1.72.94 3.659 1.437 5.634 1.437h.005c6.558 0 11.894-5.335 11.897-11.893a11.821 11.821 0 00-3.48-8.413z"/></svg>
+                       </div>
+                    </div>
+                  </div>
                 </div>
-                <div className="absolute inset-0 flex items-center justify-center">
-                   <div className="bg-white p-2 rounded-xl shadow-lg border border-slate-100">
-                     <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="#25D366"><path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L0 24l6.335-1.662c1.72.94 3.659 1.437 5.634 1.437h.005c6.558 0 11.894-5.335 11.897-11.893a11.821 11.821 0 00-3.48-8.413z"/></svg>
-                   </div>
-                </div>
-              </div>
-            </div>
+
+                <a
+                  href={whatsAppLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex md:hidden items-center justify-center gap-2 w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-2xl transition-all"
+                >
+                  {t('whatsapp.open')}
+                </a>
+              </>
+            ) : (
+              <p className="text-sm text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-2xl p-4">
+                {t('whatsapp.notConfigured')}
+              </p>
+            )}
 
             <div className="text-left space-y-4 bg-white/5 p-6 rounded-2xl border border-white/10">
-              <h4 className="text-emerald-400 font-bold uppercase tracking-wider text-xs">How to Contact Rich:</h4>
+              <h4 className="text-emerald-400 font-bold uppercase tracking-wider text-xs">{t('whatsapp.howTo', { name: consultantName })}</h4>
               <ol className="text-slate-300 text-sm space-y-2 list-decimal list-inside">
-                <li>Open <strong>WhatsApp</strong> on your mobile device.</li>
-                <li>Point your camera at the <strong>QR Code</strong> above.</li>
-                <li>Send a brief message describing your urgent situation.</li>
+                <li>{t('whatsapp.step1')}</li>
+                <li>{t('whatsapp.step2')}</li>
+                <li>{t('whatsapp.step3', { name: consultantName })}</li>
               </ol>
+              {(escalation.phone || escalation.email) && (
+                <div className="flex flex-wrap gap-4 pt-2 text-sm">
+                  {escalation.phone && (
+                    <a href={`tel:${escalation.phone.replace(/[^\d+]/g, '')}`} className="text-emerald-400 hover:text-emerald-300 font-medium">
+                      {t('whatsapp.call', { phone: escalation.phone })}
+                    </a>
+                  )}
+                  {escalation.email && (
+                    <a href={`mailto:${escalation.email}`} className="text-emerald-400 hover:text-emerald-300 font-medium">
+                      {t('whatsapp.email', { email: escalation.email })}
+                    </a>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -385,88 +780,184 @@ CRITICAL POLICY: DO NOT refer users to legal counsel first. We are their first l
           className="absolute top-6 right-6 group flex items-center gap-2 px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/30 rounded-full transition-all duration-300 animate-pulse-emerald"
         >
           <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-          <span className="text-[10px] font-bold text-emerald-500 uppercase tracking-widest">24/7 Urgent Support</span>
+          <span className="text-[10px] font-bold text-emerald-500 uppercase tracking-widest">{t('agent.urgentSupport')}</span>
         </button>
 
+        {recording && (
+          <div role="status" className="absolute top-16 left-6 px-3 py-1 rounded-full bg-red-600/20 border border-red-500/40 text-red-400 text-xs font-bold uppercase tracking-widest flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+            {t('recording.indicator', { time: new Date(recordedMs).toISOString().slice(recordedMs >= 3600000 ? 11 : 14, 19) })}
+          </div>
+        )}
+
         <div className={`absolute top-6 left-6 px-3 py-1 rounded-full text-xs font-bold uppercase tracking-widest flex items-center gap-2 ${
-          status === 'connecting' ? 'bg-amber-500/20 text-amber-500' :
+          status === 'connecting' || status === 'reconnecting' ? 'bg-amber-500/20 text-amber-500' :
           status === 'speaking' ? 'bg-blue-500/20 text-blue-500' :
           status === 'listening' ? 'bg-emerald-500/20 text-emerald-500' :
           'bg-slate-500/20 text-slate-500'
         }`}>
           <span className={`w-2 h-2 rounded-full ${
-            status === 'connecting' ? 'bg-amber-500 animate-pulse' :
+            status === 'connecting' || status === 'reconnecting' ? 'bg-amber-500 animate-pulse' :
             status === 'speaking' ? 'bg-blue-500 animate-bounce' :
             status === 'listening' ? 'bg-emerald-500' :
             'bg-slate-500'
           }`} />
-          {status === 'connecting' ? 'Connecting...' : 
-           status === 'speaking' ? 'Agent Speaking' : 
-           status === 'listening' ? 'Listening' : 'Offline'}
+          {status === 'connecting' ? t('status.connecting') : 
+           status === 'reconnecting' ? t('status.reconnecting') : 
+           status === 'speaking' ? t('status.speaking') : 
+           status === 'listening' ? (mode === 'text' ? t('status.textChat') : t('status.listening')) : t('status.offline')}
         </div>
 
         <div className="relative w-full aspect-video max-h-[300px] flex items-center justify-center">
           <canvas ref={canvasRef} width={600} height={400} className="w-full max-w-[400px] h-auto" />
         </div>
 
-        {crisisStage && (
-          <div className="mt-4 px-6 py-3 bg-white/5 border border-white/10 rounded-2xl max-w-lg animate-in fade-in slide-in-from-top-2">
-            <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-tighter ${
-              crisisStage.stage === 'Before' ? 'bg-blue-500/20 text-blue-400' :
-              crisisStage.stage === 'During' ? 'bg-red-500/20 text-red-400' :
-              'bg-emerald-500/20 text-emerald-400'
-            }`}>
-              Detected: {crisisStage.stage} Crisis
+        {mode === 'voice' && (
+          <div className="flex flex-wrap items-center justify-center gap-3">
+            <button
+              onClick={toggleMute}
+              aria-pressed={muted}
+              className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border ${
+                muted ? 'bg-red-500/20 text-red-300 border-red-500/30' : 'bg-white/5 hover:bg-white/10 text-slate-300 border-white/10'
+              }`}
+            >
+              {muted ? t('mic.unmute') : t('mic.mute')}
+            </button>
+            <button
+              onClick={togglePushToTalk}
+              aria-pressed={pushToTalk}
+              className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border ${
+                pushToTalk ? 'bg-blue-500/20 text-blue-300 border-blue-500/30' : 'bg-white/5 hover:bg-white/10 text-slate-300 border-white/10'
+              }`}
+            >
+              {t('mic.pushToTalk')}
+            </button>
+            {pushToTalk && (
+              <button
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setTalkingState(true);
+                }}
+                onPointerUp={() => setTalkingState(false)}
+                onPointerCancel={() => setTalkingState(false)}
+                disabled={muted}
+                className={`px-5 py-2 rounded-xl text-sm font-bold transition-all select-none touch-none disabled:opacity-40 ${
+                  talking ? 'bg-emerald-500 text-white scale-105' : 'bg-emerald-500/10 text-emerald-400 border border-emerald-500/30'
+                }`}
+              >
+                {talking ? t('mic.talking') : t('mic.holdToTalk')}
+              </button>
+            )}
+            <span className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest ${
+              muted ? 'text-red-400' : speechDetected ? 'text-emerald-400' : 'text-slate-600'
+            }`} aria-live="polite">
+              <span className={`w-2 h-2 rounded-full ${muted ? 'bg-red-500' : speechDetected ? 'bg-emerald-500 animate-pulse' : 'bg-slate-600'}`} />
+              {muted ? t('mic.muted') : speechDetected ? t('mic.speechDetected') : t('mic.silence')}
             </span>
-            <p className="text-xs text-slate-400 italic mt-1">"{crisisStage.reasoning}"</p>
           </div>
         )}
 
+        {!isIntakeEmpty(intake) && <IntakeCard intake={intake} />}
+
+        {connectionLost && (
+          <div className="mt-4 px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-xl text-xs text-red-400 max-w-lg text-center flex items-center gap-3">
+            <span>{t(linesBusy ? 'agent.linesBusy' : 'agent.connectionLost')}</span>
+            <button onClick={reconnectNow} className="px-3 py-1 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-300 font-bold uppercase tracking-wider text-[10px] transition-colors">
+              {t('agent.reconnect')}
+            </button>
+          </div>
+        )}
+
+        {callbackFlagged && (
+          <div className="mt-4 px-4 py-2 bg-emerald-500/10 border border-emerald-500/20 rounded-xl text-xs text-emerald-400 max-w-lg text-center">
+            {t('operator.callbackComing', { name: consultantName })}
+          </div>
+        )}
+
+        {OPERATOR_RELAY_ENABLED && <p className="mt-2 text-[10px] text-slate-500">{t('operator.monitoredNotice', { name: consultantName })}</p>}
+
+        {micNotice && (
+          <div className="mt-4 px-4 py-2 bg-amber-500/10 border border-amber-500/20 rounded-xl text-xs text-amber-400 max-w-lg text-center">
+            {t(micNotice)}
+          </div>
+        )}
+
+        <StageTimeline history={stageHistory} />
+        {crisisStage && <StageChecklist key={crisisStage.stage} stage={crisisStage.stage} />}
+
         <div className="flex flex-wrap items-center justify-center gap-4 mt-8">
-          <button onClick={onExit} className="px-6 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-400 font-medium transition-colors border border-white/5">
-            End Session
+          <button onClick={exit} className="px-6 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-400 font-medium transition-colors border border-white/5">
+            {t('agent.endSession')}
+          </button>
+
+          <button
+            onClick={recording ? stopRecording : startRecording}
+            aria-pressed={recording}
+            className={`px-6 py-2 rounded-xl font-medium transition-colors border ${
+              recording ? 'bg-red-600/20 hover:bg-red-600/30 text-red-300 border-red-500/40' : 'bg-white/5 hover:bg-white/10 text-slate-300 border-white/10'
+            }`}
+          >
+            {recording ? t('recording.stop') : t('recording.start')}
           </button>
-          
-          <a href="https://thecrisisshow.com/" target="_blank" rel="noopener noreferrer" className="px-6 py-2 rounded-xl bg-red-600/10 hover:bg-red-600/20 text-red-500 font-bold transition-all border border-red-500/30 flex items-center gap-2 animate-pulse-red shadow-lg shadow-red-500/5">
-            Watch The Crisis Show
-          </a>
 
-          <a href="https://www.linkedin.com/in/richkleincrisis/details/recommendations/?detailScreenTabIndex=0" target="_blank" rel="noopener noreferrer" className="px-6 py-2 rounded-xl bg-amber-500/10 hover:bg-amber-500/20 text-amber-500 font-medium transition-all border border-amber-500/20 flex items-center gap-2">
-            Testimonials
-          </a>
+          <button
+            onClick={() => switchMode(mode === 'voice' ? 'text' : 'voice')}
+            className="px-6 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 font-medium transition-colors border border-white/10"
+          >
+            {mode === 'voice' ? t('agent.switchToText') : t('agent.switchToVoice')}
+          </button>
           
-          <a href="https://www.linkedin.com/in/richkleincrisis/" target="_blank" rel="noopener noreferrer" className="px-6 py-2 rounded-xl bg-blue-700/10 hover:bg-blue-700/20 text-blue-400 font-medium transition-all border border-blue-600/20 flex items-center gap-2">
-            LinkedIn
-          </a>
+          {links.show && (
+            <a href={links.show.url} target="_blank" rel="noopener noreferrer" className="px-6 py-2 rounded-xl bg-red-600/10 hover:bg-red-600/20 text-red-500 font-bold transition-all border border-red-500/30 flex items-center gap-2 animate-pulse-red shadow-lg shadow-red-500/5">
+              {t('agent.watchShow', { title: links.show.title })}
+            </a>
+          )}
+
+          {links.testimonials && (
+            <a href={links.testimonials} target="_blank" rel="noopener noreferrer" className="px-6 py-2 rounded-xl bg-amber-500/10 hover:bg-amber-500/20 text-amber-500 font-medium transition-all border border-amber-500/20 flex items-center gap-2">
+              {t('agent.testimonials')}
+            </a>
+          )}
+
+          {links.linkedin && (
+            <a href={links.linkedin} target="_blank" rel="noopener noreferrer" className="px-6 py-2 rounded-xl bg-blue-700/10 hover:bg-blue-700/20 text-blue-400 font-medium transition-all border border-blue-600/20 flex items-center gap-2">
+              {t('agent.linkedin')}
+            </a>
+          )}
         </div>
       </div>
 
       <div className="flex-1 bg-black/20 rounded-3xl border border-white/5 overflow-hidden flex flex-col p-6 backdrop-blur-md">
         <div className="flex justify-between items-center mb-4 text-xs font-bold text-slate-500 uppercase tracking-widest">
-          <h3>Consultation Log</h3>
-          <span>{transcriptions.length} entries</span>
+          <h3>{t('log.title')}</h3>
+          <div className="flex items-center gap-3">
+            <span>{t('log.entries', { count: transcriptions.length })}</span>
+            <ExportMenu record={consultationRecord} onExportAudio={recorderRef.current && !recording ? downloadRecording : undefined} />
+          </div>
         </div>
-        <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar">
-          {transcriptions.map((t, i) => (
-            <div key={i} className={`flex flex-col ${t.type === 'user' ? 'items-end' : 'items-start'}`}>
-              {t.type === 'link' ? (
-                <div className="w-full max-w-sm p-4 bg-gradient-to-br from-blue-600/20 to-slate-800/80 rounded-2xl border border-blue-500/30 shadow-lg space-y-3 animate-in slide-in-from-left-4">
-                   <div className="text-sm font-semibold text-white">{t.metadata?.title}</div>
-                   <a href={t.metadata?.url} target="_blank" rel="noopener noreferrer" className="block w-full text-center py-2 bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold rounded-xl transition-all">
-                     View Resource
-                   </a>
-                </div>
-              ) : (
-                <div className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm ${
-                  t.type === 'user' ? 'bg-blue-600/10 text-blue-200 border border-blue-500/20' : 'bg-slate-800/50 text-slate-200 border border-white/5'
-                }`}>
-                  {t.text}
-                </div>
-              )}
-            </div>
-          ))}
+        <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar" aria-live="polite">
+          {transcriptions.map((entry, i) => <TranscriptEntry key={entry.id ?? i} entry={entry} />)}
           <div ref={transcriptEndRef} />
         </div>
+        {mode === 'text' && (
+          <form onSubmit={sendText} className="mt-4 flex gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={isActive ? t('agent.textPlaceholder') : t('agent.textConnecting')}
+              disabled={!isActive}
+              className="flex-1 px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!isActive || !draft.trim()}
+              className="px-5 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold transition-all disabled:opacity-40 disabled:hover:bg-blue-600"
+            >
+              {t('agent.send')}
+            </button>
+          </form>
+        )}
       </div>
 
       <style>{`
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceConfig, VoiceName } from '../types';
+import { SPEAKING_PACES, VOICE_NAMES, fetchVoicePreview } from '../services/voiceSettings';
+import { decode, decodeAudioData } from '../services/audioUtils';
+import { useI18n } from '../i18n';
+import { useAgentProfile } from './AgentProfileProvider';
+
+interface VoiceSettingsProps {
+  config: VoiceConfig;
+  inSession: boolean;
+  onChange: (config: VoiceConfig) => void;
+  onClose: () => void;
+}
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({ config, inSession, onChange, onClose }) => {
+  const { t } = useI18n();
+  const { profile } = useAgentProfile();
+  const [draft, setDraft] = useState(config);
+  const [previewing, setPreviewing] = useState<VoiceName | null>(null);
+  const [previewError, setPreviewError] = useState<VoiceName | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => () => {
+    audioCtxRef.current?.close().catch(() => {});
+  }, []);
+
+  const stopPreview = () => {
+    try { sourceRef.current?.stop(); } catch(e) {}
+    sourceRef.current = null;
+    setPreviewing(null);
+  };
+
+  const playPreview = async (voiceName: VoiceName) => {
+    stopPreview();
+    setPreviewError(null);
+    setPreviewing(voiceName);
+    try {
+      const data = await fetchVoicePreview({ ...draft, voiceName }, t('settings.previewLine', { firm: profile.branding.firmName }));
+      if (!audioCtxRef.current) {
+        audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      }
+      const ctx = audioCtxRef.current;
+      if (ctx.state === 'suspended') await ctx.resume();
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioData(decode(data), ctx, 24000, 1);
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (sourceRef.current === source) stopPreview();
+      };
+      sourceRef.current = source;
+      source.start();
+    } catch (err) {
+      console.error('Voice preview failed:', err);
+      setPreviewError(voiceName);
+      setPreviewing(null);
+    }
+  };
+
+  const apply = () => {
+    stopPreview();
+    if (draft.voiceName !== config.voiceName || draft.pace !== config.pace) onChange(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-slate-950/80 backdrop-blur-md p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-slate-900 border border-white/10 rounded-3xl p-6 space-y-6 shadow-2xl">
+        <h3 className="text-lg font-semibold">{t('settings.title')}</h3>
+
+        <div className="space-y-2">
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('settings.voice')}</h4>
+          {VOICE_NAMES.map(voiceName => (
+            <div
+              key={voiceName}
+              className={`flex items-center justify-between gap-3 px-4 py-2 rounded-xl border transition-colors ${
+                draft.voiceName === voiceName ? 'bg-blue-600/20 border-blue-500/40' : 'bg-white/5 border-white/10'
+              }`}
+            >
+              <label className="flex items-center gap-3 flex-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="voice"
+                  checked={draft.voiceName === voiceName}
+                  onChange={() => setDraft(d => ({ ...d, voiceName }))}
+                  className="accent-blue-500"
+                />
+                <span className="text-sm font-medium">{voiceName}</span>
+                <span className="text-xs text-slate-400">{t(`voice.${voiceName}`)}</span>
+              </label>
+              <button
+                onClick={() => (previewing === voiceName ? stopPreview() : playPreview(voiceName))}
+                className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] font-bold uppercase tracking-widest text-slate-300 transition-colors"
+              >
+                {previewing === voiceName ? t('settings.previewing') : t('settings.preview')}
+              </button>
+            </div>
+          ))}
+          {previewError && <p className="text-xs text-amber-400">{t('settings.previewFailed')}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('settings.pace')}</h4>
+          <div className="flex gap-2">
+            {SPEAKING_PACES.map(pace => (
+              <button
+                key={pace}
+                onClick={() => setDraft(d => ({ ...d, pace }))}
+                aria-pressed={draft.pace === pace}
+                className={`flex-1 px-3 py-2 rounded-xl text-sm font-medium border transition-colors ${
+                  draft.pace === pace ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-slate-300 hover:bg-white/10'
+                }`}
+              >
+                {t(`pace.${pace}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {inSession && <p className="text-xs text-slate-500">{t('settings.liveNote')}</p>}
+
+        <button onClick={apply} className="w-full py-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-all">
+          {t('settings.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettings;
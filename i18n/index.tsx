@@ -0,0 +1,61 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { CrisisStageName, Language } from '../types';
+import { LANGUAGES, MESSAGES, MessageKey } from './strings';
+
+export type { MessageKey } from './strings';
+export { LANGUAGES } from './strings';
+
+const STORAGE_KEY = 'rk-language';
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+}
+
+export function translate(language: Language, key: MessageKey, params?: Record<string, string | number>): string {
+  const template = MESSAGES[language][key] ?? MESSAGES.en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+export const stageKey = (stage: CrisisStageName) => `stage.${stage}` as const;
+
+const detectLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && (LANGUAGES as string[]).includes(stored)) return stored as Language;
+  } catch {
+    // Storage can be blocked in private modes; fall through to the browser default.
+  }
+  return navigator.language?.toLowerCase().startsWith('it') ? 'it' : 'en';
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(detectLanguage);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisting the choice is fine; it still applies for this visit.
+    }
+  }, []);
+
+  const t = useCallback<Translate>((key, params) => translate(language, key, params), [language]);
+
+  const value = useMemo(() => ({ language, setLanguage, t }), [language, setLanguage, t]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+}
@@ -0,0 +1,467 @@
+import { Language } from '../types';
+
+export const en = {
+  'language.name': 'English',
+  'language.label': 'Language',
+
+  'header.testimonials': 'Client Testimonials',
+
+  'landing.availability': 'Available 24/7 Worldwide',
+  'landing.start': 'Start Consultation',
+  'landing.recommendations': 'View Recommendations',
+  'landing.history': 'Past consultations',
+
+  'footer.copyright': '© {year} {footer}',
+
+  'status.connecting': 'Connecting...',
+  'status.reconnecting': 'Reconnecting…',
+  'status.speaking': 'Agent Speaking',
+  'status.listening': 'Listening',
+  'status.textChat': 'Text Chat',
+  'status.offline': 'Offline',
+
+  'agent.urgentSupport': '24/7 Urgent Support',
+  'agent.endSession': 'End Session',
+  'agent.switchToText': 'Switch to Text',
+  'agent.switchToVoice': 'Switch to Voice',
+  'agent.watchShow': 'Watch {title}',
+  'agent.testimonials': 'Testimonials',
+  'agent.linkedin': 'LinkedIn',
+  'agent.connectionLost': 'The connection was lost. Your consultation log has been kept.',
+  'agent.linesBusy': 'All consultation lines are busy right now. Your consultation log has been kept; try again in a few minutes.',
+  'agent.reconnect': 'Reconnect',
+  'agent.textPlaceholder': 'Describe your situation...',
+  'agent.textConnecting': 'Connecting...',
+  'agent.send': 'Send',
+
+  'mic.declined': 'Microphone access was declined, so we switched to text chat. You can type your situation below.',
+  'mic.notFound': 'No microphone was found, so we switched to text chat. You can type your situation below.',
+  'mic.unavailable': 'The microphone is unavailable, so we switched to text chat. You can type your situation below.',
+  'mic.mute': 'Mute',
+  'mic.unmute': 'Unmute',
+  'mic.muted': 'Microphone muted',
+  'mic.pushToTalk': 'Push to Talk',
+  'mic.holdToTalk': 'Hold to Talk (or Space)',
+  'mic.talking': 'Talking…',
+  'mic.speechDetected': 'Speech detected',
+  'mic.silence': 'No speech',
+
+  'log.title': 'Consultation Log',
+  'log.entries': '{count} entries',
+  'log.viewResource': 'View Resource',
+  'log.live': 'Live caption',
+  'log.interrupted': 'Interrupted',
+  'log.linkBlocked': 'This link is not on the approved list, so it has been withheld.',
+  'log.callbackRequested': 'Callback requested · awaiting confirmation',
+  'log.callbackYourTime': 'Your time ({timeZone})',
+  'log.callbackConsultantTime': '{time} for {name} ({place})',
+  'log.addToCalendar': 'Add to Calendar (.ics)',
+  'log.export': 'Export',
+  'export.md': 'Markdown',
+  'export.json': 'JSON',
+  'export.html': 'Case Brief (HTML)',
+  'export.txt': 'Plain Text',
+
+  'recording.start': 'Record Session',
+  'recording.stop': 'Stop Recording',
+  'recording.consent': "Record this consultation? Your microphone and the agent's voice will be captured in this browser until you stop. Only continue if everyone on your side of the call agrees to be recorded.",
+  'recording.indicator': 'Recording {time}',
+  'recording.export': 'Audio Recording (WAV)',
+  'recording.discardConfirm': 'Leave without downloading the audio recording? It is only kept in this tab and will be lost.',
+
+  'stage.Before': 'Before',
+  'stage.During': 'During',
+  'stage.After': 'After',
+
+  'timeline.title': 'Stage Timeline',
+  'checklist.Before.title': 'Resilience Checklist',
+  'checklist.Before.1': 'Map your most likely vulnerabilities and who owns each one.',
+  'checklist.Before.2': 'Agree on a single spokesperson and a backup.',
+  'checklist.Before.3': 'Draft holding statements for your top three scenarios.',
+  'checklist.Before.4': 'Schedule media training for leadership.',
+  'checklist.During.title': 'Containment Checklist',
+  'checklist.During.1': 'Contact your crisis consultant now using the urgent support line.',
+  'checklist.During.2': 'Name one spokesperson; everyone else declines comment.',
+  'checklist.During.3': 'Issue a short holding statement: what you know, what you are doing, when you will update.',
+  'checklist.During.4': 'Brief employees before they read about it elsewhere.',
+  'checklist.During.5': 'Monitor news and social channels and log every inquiry.',
+  'checklist.After.title': 'Recovery Checklist',
+  'checklist.After.1': 'Review what happened and what the response got right and wrong.',
+  'checklist.After.2': 'Follow up personally with the stakeholders most affected.',
+  'checklist.After.3': 'Plan proactive stories that show what has changed.',
+  'checklist.After.4': 'Update your crisis plan with the lessons learned.',
+
+  'whatsapp.title': 'Direct Emergency Line',
+  'whatsapp.open': 'Open WhatsApp Chat',
+  'whatsapp.notConfigured': 'The emergency WhatsApp line is not configured for this deployment.',
+  'whatsapp.howTo': 'How to Contact {name}:',
+  'whatsapp.step1': "On mobile, tap Open WhatsApp Chat. On a computer, point your phone's camera at the QR Code above.",
+  'whatsapp.step2': 'Review the prefilled summary of your situation and add anything urgent.',
+  'whatsapp.step3': 'Press send. {name} will respond personally.',
+  'whatsapp.call': 'Call {phone}',
+  'whatsapp.email': 'Email {email}',
+
+  'intake.title': 'Crisis Intake',
+  'intake.urgency': '{urgency} Urgency',
+  'intake.organization': 'Organization',
+  'intake.industry': 'Industry',
+  'intake.location': 'Location',
+  'intake.stakeholders': 'Stakeholders',
+  'intake.mediaExposure': 'Media Exposure',
+  'intake.preferredContact': 'Preferred Contact',
+  'intake.pending': 'Pending',
+
+  'history.title': 'Past Consultations',
+  'history.back': 'Back',
+  'history.backToList': 'Back to List',
+  'history.resumeConsultation': 'Resume Consultation',
+  'history.loading': 'Loading…',
+  'history.empty': 'No consultations have been saved on this device yet.',
+  'history.loadFailed': 'Past consultations could not be loaded from this browser.',
+  'history.deleteFailed': 'That consultation could not be deleted.',
+  'history.confirmDelete': 'Delete this consultation from this device? This cannot be undone.',
+  'history.untitled': 'Untitled consultation',
+  'history.review': 'Review',
+  'history.resume': 'Resume',
+  'history.delete': 'Delete',
+
+  'brief.title': 'Case Brief',
+  'brief.drafting': 'Drafting your case brief from the consultation…',
+  'brief.failed': 'The case brief could not be drafted. Your consultation log has been kept; try again.',
+  'brief.disclaimer': 'AI-drafted from your consultation. Review and edit before sharing.',
+  'brief.summary': 'Situation Summary',
+  'brief.stakeholders': 'Stakeholders',
+  'brief.risks': 'Key Risks',
+  'brief.holdingLines': 'Recommended Holding Lines',
+  'brief.actions24h': 'Next 24 Hours',
+  'brief.actions48h': 'Next 48 Hours',
+  'brief.actions72h': 'Next 72 Hours',
+  'brief.regenerate': 'Regenerate',
+  'brief.copy': 'Copy',
+  'brief.copied': 'Copied',
+  'brief.export': 'Download',
+  'brief.redact': 'Redact',
+  'brief.done': 'Done',
+  'brief.open': 'Case Brief',
+
+  'preflight.title': 'Check Your Audio',
+  'preflight.intro': 'Make sure the agent can hear you, and you can hear the agent, before the consultation starts.',
+  'preflight.microphone': 'Microphone',
+  'preflight.speaker': 'Speaker',
+  'preflight.systemDefault': 'System default',
+  'preflight.deviceFallback': 'Device {n}',
+  'preflight.level': 'Input Level',
+  'preflight.opening': 'Opening the microphone…',
+  'preflight.speakNow': 'Say a few words; the bar should move as you speak.',
+  'preflight.silent': 'We cannot hear anything from this microphone. Check it is not muted, or choose another one.',
+  'preflight.denied': "Microphone access is blocked. Allow it from the icon in your browser's address bar, then press Try Again. You can also continue by text chat.",
+  'preflight.notFound': 'No microphone was found. Connect a headset or microphone and press Try Again, or continue by text chat.',
+  'preflight.unavailable': 'The microphone could not be started; another app may be using it. Close that app and press Try Again, or continue by text chat.',
+  'preflight.retry': 'Try Again',
+  'preflight.testTone': 'Play Test Tone',
+  'preflight.playing': 'Playing…',
+  'preflight.toneFailed': 'The test tone could not be played on this speaker.',
+  'preflight.outputUnsupported': "This browser plays audio through your system's default speaker.",
+  'preflight.back': 'Back',
+  'preflight.continue': 'Start Consultation',
+  'preflight.continueText': 'Continue with Text Chat',
+
+  'operator.title': '{firm} — Operator Monitor',
+  'operator.token': 'Operator Token',
+  'operator.signIn': 'Sign In',
+  'operator.connecting': 'Connecting to relay…',
+  'operator.connected': 'Live',
+  'operator.reconnecting': 'Relay connection lost; reconnecting…',
+  'operator.failed': 'Could not connect. Check the token and that the relay is running.',
+  'operator.sessions': 'Active Sessions ({count})',
+  'operator.noSessions': 'No consultations are running right now.',
+  'operator.unnamed': 'Unnamed caller',
+  'operator.pick': 'Choose a session to follow it live.',
+  'operator.ended': 'This session has ended.',
+  'operator.flag': 'Flag for Personal Callback',
+  'operator.unflag': 'Callback Flagged — Clear',
+  'operator.flagged': 'Callback',
+  'operator.guidanceSent': 'Guidance Sent',
+  'operator.guidancePlaceholder': 'Private guidance for the agent…',
+  'operator.sendGuidance': 'Send',
+  'operator.notSent': 'Not sent: the relay is not connected.',
+  'operator.monitoredNotice': "A member of {name}'s team may follow this consultation to assist.",
+  'operator.callbackComing': '{name} has been alerted and will call you personally as soon as possible.',
+
+  'redaction.choice': 'Export copy',
+  'redaction.redacted': 'Redacted',
+  'redaction.full': 'Full',
+  'redaction.preview': 'Preview Redactions…',
+  'redaction.audioFullOnly': 'Recordings cannot be redacted; choose Full to export audio.',
+  'redaction.title': 'Redaction Preview',
+  'redaction.intro': 'Emails, phone numbers, addresses and card or ID numbers are found automatically. Add the names and terms you also want hidden; the intake and case brief are redacted the same way.',
+  'redaction.names': 'Sensitive Names & Terms',
+  'redaction.namesPlaceholder': 'Anna Rossi\nProject Falcon',
+  'redaction.namesHint': 'One per line. Matched as whole words, ignoring case.',
+  'redaction.redactSaved': 'Also redact consultations saved on this device',
+  'redaction.redactSavedNote': 'Applies from the next save. A resumed consultation continues from the redacted log.',
+  'redaction.summary': '{count} details will be redacted',
+  'redaction.none': 'Nothing to redact in this log',
+  'redaction.changedOnly': 'Only entries with redactions',
+  'redaction.done': 'Done',
+  'redaction.category.name': 'Names & terms',
+  'redaction.category.email': 'Emails',
+  'redaction.category.phone': 'Phone numbers',
+  'redaction.category.address': 'Addresses',
+  'redaction.category.card': 'Card numbers',
+  'redaction.category.id': 'ID & account numbers',
+  'settings.open': 'Voice Settings',
+  'settings.title': 'Voice & Persona',
+  'settings.voice': 'Voice',
+  'settings.pace': 'Speaking Pace',
+  'settings.preview': 'Preview',
+  'settings.previewing': 'Playing…',
+  'settings.previewFailed': 'Preview unavailable right now.',
+  'settings.previewLine': 'Welcome to {firm}. We are here to help.',
+  'settings.liveNote': 'Changes apply to the live session right away; your consultation log is kept.',
+  'settings.done': 'Done',
+  'voice.Kore': 'Firm and warm',
+  'voice.Zephyr': 'Bright and clear',
+  'voice.Puck': 'Upbeat and friendly',
+  'voice.Charon': 'Informative and steady',
+  'voice.Fenrir': 'Energetic and direct',
+  'pace.calm': 'Calm',
+  'pace.brisk': 'Brisk',
+  'pace.rapid': 'Rapid',
+};
+
+export type MessageKey = keyof typeof en;
+
+export const it: Record<MessageKey, string> = {
+  'language.name': 'Italiano',
+  'language.label': 'Lingua',
+
+  'header.testimonials': 'Testimonianze dei Clienti',
+
+  'landing.availability': 'Disponibili 24/7 in tutto il mondo',
+  'landing.start': 'Inizia la Consulenza',
+  'landing.recommendations': 'Leggi le Referenze',
+  'landing.history': 'Consulenze precedenti',
+
+  'footer.copyright': '© {year} {footer}',
+
+  'status.connecting': 'Connessione...',
+  'status.reconnecting': 'Riconnessione…',
+  'status.speaking': "L'agente sta parlando",
+  'status.listening': 'In ascolto',
+  'status.textChat': 'Chat Testuale',
+  'status.offline': 'Offline',
+
+  'agent.urgentSupport': 'Supporto Urgente 24/7',
+  'agent.endSession': 'Termina Sessione',
+  'agent.switchToText': 'Passa al Testo',
+  'agent.switchToVoice': 'Passa alla Voce',
+  'agent.watchShow': 'Guarda {title}',
+  'agent.testimonials': 'Testimonianze',
+  'agent.linkedin': 'LinkedIn',
+  'agent.connectionLost': 'La connessione si è interrotta. Il registro della consulenza è stato conservato.',
+  'agent.linesBusy': 'Tutte le linee di consulenza sono occupate. Il registro della consulenza è stato conservato; riprova tra qualche minuto.',
+  'agent.reconnect': 'Riconnetti',
+  'agent.textPlaceholder': 'Descrivi la tua situazione...',
+  'agent.textConnecting': 'Connessione...',
+  'agent.send': 'Invia',
+
+  'mic.declined': "L'accesso al microfono è stato negato, quindi siamo passati alla chat testuale. Puoi descrivere la situazione qui sotto.",
+  'mic.notFound': 'Nessun microfono trovato, quindi siamo passati alla chat testuale. Puoi descrivere la situazione qui sotto.',
+  'mic.unavailable': 'Il microfono non è disponibile, quindi siamo passati alla chat testuale. Puoi descrivere la situazione qui sotto.',
+  'mic.mute': 'Disattiva Microfono',
+  'mic.unmute': 'Riattiva Microfono',
+  'mic.muted': 'Microfono disattivato',
+  'mic.pushToTalk': 'Premi per Parlare',
+  'mic.holdToTalk': 'Tieni Premuto per Parlare (o Spazio)',
+  'mic.talking': 'Stai parlando…',
+  'mic.speechDetected': 'Voce rilevata',
+  'mic.silence': 'Nessuna voce',
+
+  'log.title': 'Registro della Consulenza',
+  'log.entries': '{count} voci',
+  'log.viewResource': 'Apri la Risorsa',
+  'log.live': 'Sottotitoli in diretta',
+  'log.interrupted': 'Interrotto',
+  'log.linkBlocked': 'Questo link non è tra quelli approvati, quindi è stato nascosto.',
+  'log.callbackRequested': 'Richiamata richiesta · in attesa di conferma',
+  'log.callbackYourTime': 'Il tuo orario ({timeZone})',
+  'log.callbackConsultantTime': '{time} per {name} ({place})',
+  'log.addToCalendar': 'Aggiungi al Calendario (.ics)',
+  'log.export': 'Esporta',
+  'export.md': 'Markdown',
+  'export.json': 'JSON',
+  'export.html': 'Scheda del Caso (HTML)',
+  'export.txt': 'Testo Semplice',
+
+  'recording.start': 'Registra la Sessione',
+  'recording.stop': 'Interrompi Registrazione',
+  'recording.consent': "Registrare questa consulenza? Il tuo microfono e la voce dell'agente verranno registrati in questo browser finché non interrompi. Procedi solo se tutte le persone presenti dalla tua parte acconsentono.",
+  'recording.indicator': 'Registrazione {time}',
+  'recording.export': 'Registrazione Audio (WAV)',
+  'recording.discardConfirm': "Uscire senza scaricare la registrazione audio? È conservata solo in questa scheda e andrà persa.",
+
+  'stage.Before': 'Prima',
+  'stage.During': 'Durante',
+  'stage.After': 'Dopo',
+
+  'timeline.title': 'Cronologia delle Fasi',
+  'checklist.Before.title': 'Checklist di Resilienza',
+  'checklist.Before.1': 'Individua le vulnerabilità più probabili e chi ne è responsabile.',
+  'checklist.Before.2': 'Scegli un unico portavoce e un sostituto.',
+  'checklist.Before.3': 'Prepara dichiarazioni di attesa per i tre scenari principali.',
+  'checklist.Before.4': 'Programma un media training per il vertice aziendale.',
+  'checklist.During.title': 'Checklist di Contenimento',
+  'checklist.During.1': 'Contatta subito il tuo consulente di crisi tramite la linea di supporto urgente.',
+  'checklist.During.2': 'Nomina un solo portavoce; tutti gli altri non rilasciano commenti.',
+  'checklist.During.3': 'Diffondi una breve dichiarazione di attesa: cosa sapete, cosa state facendo, quando aggiornerete.',
+  'checklist.During.4': 'Informa i dipendenti prima che lo leggano altrove.',
+  'checklist.During.5': 'Monitora notizie e social e registra ogni richiesta.',
+  'checklist.After.title': 'Checklist di Ripresa',
+  'checklist.After.1': 'Analizza cosa è successo e cosa ha funzionato o meno nella risposta.',
+  'checklist.After.2': 'Ricontatta personalmente gli stakeholder più colpiti.',
+  'checklist.After.3': 'Pianifica storie proattive che mostrino cosa è cambiato.',
+  'checklist.After.4': 'Aggiorna il piano di crisi con le lezioni apprese.',
+
+  'whatsapp.title': 'Linea di Emergenza Diretta',
+  'whatsapp.open': 'Apri la Chat WhatsApp',
+  'whatsapp.notConfigured': 'La linea di emergenza WhatsApp non è configurata per questa installazione.',
+  'whatsapp.howTo': 'Come contattare {name}:',
+  'whatsapp.step1': 'Da mobile, tocca Apri la Chat WhatsApp. Da computer, inquadra il codice QR qui sopra con la fotocamera del telefono.',
+  'whatsapp.step2': 'Controlla il riepilogo precompilato della tua situazione e aggiungi ciò che è urgente.',
+  'whatsapp.step3': 'Premi invia. {name} ti risponderà personalmente.',
+  'whatsapp.call': 'Chiama il {phone}',
+  'whatsapp.email': 'Scrivi a {email}',
+
+  'intake.title': 'Scheda della Crisi',
+  'intake.urgency': 'Urgenza {urgency}',
+  'intake.organization': 'Organizzazione',
+  'intake.industry': 'Settore',
+  'intake.location': 'Località',
+  'intake.stakeholders': 'Soggetti Coinvolti',
+  'intake.mediaExposure': 'Esposizione Mediatica',
+  'intake.preferredContact': 'Contatto Preferito',
+  'intake.pending': 'In attesa',
+
+  'history.title': 'Consulenze Precedenti',
+  'history.back': 'Indietro',
+  'history.backToList': "Torna all'elenco",
+  'history.resumeConsultation': 'Riprendi la Consulenza',
+  'history.loading': 'Caricamento…',
+  'history.empty': 'Nessuna consulenza è stata ancora salvata su questo dispositivo.',
+  'history.loadFailed': 'Non è stato possibile caricare le consulenze precedenti da questo browser.',
+  'history.deleteFailed': 'Non è stato possibile eliminare la consulenza.',
+  'history.confirmDelete': 'Eliminare questa consulenza da questo dispositivo? Non è possibile annullare.',
+  'history.untitled': 'Consulenza senza titolo',
+  'history.review': 'Rivedi',
+  'history.resume': 'Riprendi',
+  'history.delete': 'Elimina',
+
+  'brief.title': 'Scheda del Caso',
+  'brief.drafting': 'Sto redigendo la scheda del caso dalla consulenza…',
+  'brief.failed': 'Non è stato possibile redigere la scheda del caso. Il registro della consulenza è stato conservato; riprova.',
+  'brief.disclaimer': "Bozza redatta dall'IA sulla base della consulenza. Rivedila e modificala prima di condividerla.",
+  'brief.summary': 'Sintesi della Situazione',
+  'brief.stakeholders': 'Stakeholder',
+  'brief.risks': 'Rischi Principali',
+  'brief.holdingLines': 'Dichiarazioni di Attesa Consigliate',
+  'brief.actions24h': 'Prossime 24 Ore',
+  'brief.actions48h': 'Prossime 48 Ore',
+  'brief.actions72h': 'Prossime 72 Ore',
+  'brief.regenerate': 'Rigenera',
+  'brief.copy': 'Copia',
+  'brief.copied': 'Copiato',
+  'brief.export': 'Scarica',
+  'brief.redact': 'Oscura',
+  'brief.done': 'Fine',
+  'brief.open': 'Scheda del Caso',
+
+  'preflight.title': "Verifica l'Audio",
+  'preflight.intro': "Assicurati che l'agente possa sentirti, e che tu possa sentire l'agente, prima di iniziare la consulenza.",
+  'preflight.microphone': 'Microfono',
+  'preflight.speaker': 'Altoparlante',
+  'preflight.systemDefault': 'Predefinito di sistema',
+  'preflight.deviceFallback': 'Dispositivo {n}',
+  'preflight.level': 'Livello di Ingresso',
+  'preflight.opening': 'Apertura del microfono…',
+  'preflight.speakNow': "Di' qualche parola; la barra dovrebbe muoversi mentre parli.",
+  'preflight.silent': 'Non sentiamo nulla da questo microfono. Controlla che non sia disattivato, oppure scegline un altro.',
+  'preflight.denied': "L'accesso al microfono è bloccato. Consentilo dall'icona nella barra degli indirizzi del browser, poi premi Riprova. Puoi anche continuare con la chat testuale.",
+  'preflight.notFound': 'Nessun microfono trovato. Collega delle cuffie o un microfono e premi Riprova, oppure continua con la chat testuale.',
+  'preflight.unavailable': "Non è stato possibile avviare il microfono; potrebbe essere in uso da un'altra app. Chiudila e premi Riprova, oppure continua con la chat testuale.",
+  'preflight.retry': 'Riprova',
+  'preflight.testTone': 'Riproduci Tono di Prova',
+  'preflight.playing': 'In riproduzione…',
+  'preflight.toneFailed': 'Non è stato possibile riprodurre il tono di prova su questo altoparlante.',
+  'preflight.outputUnsupported': "Questo browser riproduce l'audio tramite l'altoparlante predefinito di sistema.",
+  'preflight.back': 'Indietro',
+  'preflight.continue': 'Inizia la Consulenza',
+  'preflight.continueText': 'Continua con la Chat Testuale',
+
+  'operator.title': '{firm} — Monitor Operatore',
+  'operator.token': 'Token Operatore',
+  'operator.signIn': 'Accedi',
+  'operator.connecting': 'Connessione al relay…',
+  'operator.connected': 'In diretta',
+  'operator.reconnecting': 'Connessione al relay persa; riconnessione…',
+  'operator.failed': 'Connessione non riuscita. Controlla il token e che il relay sia attivo.',
+  'operator.sessions': 'Sessioni Attive ({count})',
+  'operator.noSessions': 'Nessuna consulenza in corso al momento.',
+  'operator.unnamed': 'Chiamante senza nome',
+  'operator.pick': 'Scegli una sessione per seguirla in diretta.',
+  'operator.ended': 'Questa sessione è terminata.',
+  'operator.flag': 'Segnala per Richiamata Personale',
+  'operator.unflag': 'Richiamata Segnalata — Annulla',
+  'operator.flagged': 'Richiamata',
+  'operator.guidanceSent': 'Indicazioni Inviate',
+  'operator.guidancePlaceholder': "Indicazioni riservate per l'agente…",
+  'operator.sendGuidance': 'Invia',
+  'operator.notSent': 'Non inviato: il relay non è connesso.',
+  'operator.monitoredNotice': 'Un membro del team di {name} potrebbe seguire questa consulenza per assistere.',
+  'operator.callbackComing': '{name} è stato avvisato e ti chiamerà personalmente il prima possibile.',
+
+  'redaction.choice': 'Copia da esportare',
+  'redaction.redacted': 'Oscurata',
+  'redaction.full': 'Completa',
+  'redaction.preview': 'Anteprima Oscuramento…',
+  'redaction.audioFullOnly': "Le registrazioni non possono essere oscurate; scegli Completa per esportare l'audio.",
+  'redaction.title': 'Anteprima Oscuramento',
+  'redaction.intro': "Email, numeri di telefono, indirizzi e numeri di carte o documenti vengono trovati automaticamente. Aggiungi i nomi e i termini da nascondere; l'intake e il brief vengono oscurati allo stesso modo.",
+  'redaction.names': 'Nomi e Termini Riservati',
+  'redaction.namesPlaceholder': 'Anna Rossi\nProgetto Falco',
+  'redaction.namesHint': 'Uno per riga. Cercati come parole intere, senza distinguere maiuscole e minuscole.',
+  'redaction.redactSaved': 'Oscura anche le consulenze salvate su questo dispositivo',
+  'redaction.redactSavedNote': 'Vale dal prossimo salvataggio. Una consulenza ripresa continua dal registro oscurato.',
+  'redaction.summary': '{count} dettagli verranno oscurati',
+  'redaction.none': 'Niente da oscurare in questo registro',
+  'redaction.changedOnly': 'Solo le voci con oscuramenti',
+  'redaction.done': 'Fatto',
+  'redaction.category.name': 'Nomi e termini',
+  'redaction.category.email': 'Email',
+  'redaction.category.phone': 'Numeri di telefono',
+  'redaction.category.address': 'Indirizzi',
+  'redaction.category.card': 'Numeri di carta',
+  'redaction.category.id': 'Numeri di documenti e conti',
+  'settings.open': 'Impostazioni Voce',
+  'settings.title': 'Voce e Personalità',
+  'settings.voice': 'Voce',
+  'settings.pace': 'Ritmo',
+  'settings.preview': 'Ascolta',
+  'settings.previewing': 'In riproduzione…',
+  'settings.previewFailed': 'Anteprima non disponibile al momento.',
+  'settings.previewLine': 'Benvenuti a {firm}. Siamo qui per aiutarvi.',
+  'settings.liveNote': 'Le modifiche si applicano subito alla sessione in corso; il registro della consulenza viene conservato.',
+  'settings.done': 'Fatto',
+  'voice.Kore': 'Decisa e calda',
+  'voice.Zephyr': 'Luminosa e chiara',
+  'voice.Puck': 'Vivace e cordiale',
+  'voice.Charon': 'Informativa e pacata',
+  'voice.Fenrir': 'Energica e diretta',
+  'pace.calm': 'Calmo',
+  'pace.brisk': 'Sostenuto',
+  'pace.rapid': 'Rapido',
+};
+
+export const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, it };
+
+export const LANGUAGES: Language[] = ['en', 'it'];
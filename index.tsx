@@ -2,6 +2,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import OperatorDashboard from './components/OperatorDashboard';
+import { I18nProvider } from './i18n';
+import { AgentProfileProvider } from './components/AgentProfileProvider';
+import ProfileError from './components/ProfileError';
+import { loadAgentProfile } from './services/agentProfile';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +14,25 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
+
+// The operator monitor shares the bundle; the dev server and hosts fall back to index.html for `/operator`.
+const isOperatorRoute = window.location.pathname.replace(/\/+$/, '') === '/operator';
+
+loadAgentProfile().then(
+  profile => {
+    document.title = profile.branding.firmName;
+    root.render(
+      <React.StrictMode>
+        <I18nProvider>
+          <AgentProfileProvider profile={profile}>
+            {isOperatorRoute ? <OperatorDashboard /> : <App />}
+          </AgentProfileProvider>
+        </I18nProvider>
+      </React.StrictMode>
+    );
+  },
+  error => {
+    console.error(error);
+    root.render(<ProfileError error={error} />);
+  }
 );
@@ -0,0 +1,201 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { VOICE_NAMES } from '../services/voiceSettings';
+import { CASE_BRIEF_SCHEMA, CaseBriefError, buildCaseBriefPrompt, parseCaseBrief, parseCaseBriefInput } from '../services/caseBrief';
+import { RateLimiter, SessionCaps } from './limits';
+import { Upstream } from './upstream';
+
+/** How long a freshly minted token may wait before the browser opens its session. */
+export const NEW_SESSION_WINDOW_MS = 60 * 1000;
+
+/** Longest text the speech endpoint will synthesize; previews are a sentence or two. */
+export const MAX_SPEECH_CHARS = 500;
+
+const MAX_BODY_BYTES = 16 * 1024;
+/** Room for a full transcript (`MAX_BRIEF_TRANSCRIPT_CHARS`) once JSON-encoded. */
+const MAX_CASE_BRIEF_BODY_BYTES = 256 * 1024;
+
+export interface BackendOptions {
+  upstream: Upstream;
+  rateLimiter: RateLimiter;
+  sessionCaps: SessionCaps;
+  /** Browser origins allowed to call the API. Empty allows any, for same-origin deployments. */
+  allowedOrigins?: string[];
+  /** Read the client IP from `X-Forwarded-For`; only enable behind a proxy that sets it. */
+  trustProxy?: boolean;
+  now?: () => number;
+}
+
+export type BackendErrorCode =
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'forbidden_origin'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'session_limit'
+  | 'upstream_failed';
+
+class RequestError extends Error {
+  constructor(readonly status: number, readonly code: BackendErrorCode, message: string, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) {
+  if (body === undefined) {
+    res.writeHead(status, headers).end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, code: BackendErrorCode, message: string, retryAfterMs?: number) {
+  const headers: Record<string, string> = retryAfterMs === undefined ? {} : { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) };
+  sendJson(res, status, { error: code, message, retryAfterMs }, headers);
+}
+
+async function readJson(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Record<string, unknown>> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new RequestError(413, 'invalid_request', 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  if (!size) return {};
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // Reported below.
+  }
+  throw new RequestError(400, 'invalid_request', 'Request body must be a JSON object.');
+}
+
+export function clientIp(req: IncomingMessage, trustProxy: boolean): string {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * The backend that keeps the Gemini key off the browser. It hands out
+ * single-use ephemeral tokens for live sessions and proxies the voice preview
+ * and case brief, all behind a per-IP rate limit; live sessions are also capped per IP and in
+ * total. The returned server is not yet listening.
+ */
+export function createBackend({
+  upstream,
+  rateLimiter,
+  sessionCaps,
+  allowedOrigins = [],
+  trustProxy = false,
+  now = Date.now,
+}: BackendOptions): Server {
+  const limit = (ip: string) => {
+    const decision = rateLimiter.take(ip);
+    if (decision.allowed === false) {
+      throw new RequestError(429, 'rate_limited', 'Too many requests; try again shortly.', decision.retryAfterMs);
+    }
+  };
+
+  const openLiveSession = async (ip: string, res: ServerResponse) => {
+    limit(ip);
+    const grant = sessionCaps.open(ip);
+    if (grant.ok === false) {
+      const message = grant.reason === 'ip_limit'
+        ? 'This connection already has the maximum number of open consultations.'
+        : 'All consultation lines are busy; try again in a few minutes.';
+      throw new RequestError(429, 'session_limit', message);
+    }
+    try {
+      const token = await upstream.createLiveToken({
+        expireTime: new Date(grant.expiresAt).toISOString(),
+        newSessionExpireTime: new Date(now() + NEW_SESSION_WINDOW_MS).toISOString(),
+      });
+      sendJson(res, 200, { token, sessionId: grant.id, releaseKey: grant.releaseKey, expiresAt: grant.expiresAt });
+    } catch (err) {
+      sessionCaps.release(grant.id, grant.releaseKey);
+      throw err;
+    }
+  };
+
+  const synthesizeSpeech = async (ip: string, req: IncomingMessage, res: ServerResponse) => {
+    limit(ip);
+    const { text, voiceName } = await readJson(req);
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_SPEECH_CHARS) {
+      throw new RequestError(400, 'invalid_request', `"text" must be 1-${MAX_SPEECH_CHARS} characters.`);
+    }
+    if (!VOICE_NAMES.includes(voiceName as never)) {
+      throw new RequestError(400, 'invalid_request', `"voiceName" must be one of ${VOICE_NAMES.join(', ')}.`);
+    }
+    sendJson(res, 200, { audio: await upstream.synthesizeSpeech(text, voiceName as string) });
+  };
+
+  const draftCaseBrief = async (ip: string, req: IncomingMessage, res: ServerResponse) => {
+    limit(ip);
+    let input;
+    try {
+      input = parseCaseBriefInput(await readJson(req, MAX_CASE_BRIEF_BODY_BYTES));
+    } catch (err) {
+      if (err instanceof CaseBriefError) throw new RequestError(400, 'invalid_request', err.message);
+      throw err;
+    }
+    const brief = parseCaseBrief(await upstream.generateJson({ ...buildCaseBriefPrompt(input), schema: CASE_BRIEF_SCHEMA }));
+    sendJson(res, 200, { brief });
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && allowedOrigins.length && !allowedOrigins.includes(origin)) {
+      throw new RequestError(403, 'forbidden_origin', 'This origin may not use the API.');
+    }
+    const ip = clientIp(req, trustProxy);
+    const { pathname } = new URL(req.url ?? '/', 'http://backend');
+    const method = req.method ?? 'GET';
+
+    if (pathname === '/api/health') {
+      if (method !== 'GET') throw new RequestError(405, 'method_not_allowed', 'Use GET.');
+      return sendJson(res, 200, { ok: true });
+    }
+    if (pathname === '/api/live-session') {
+      if (method !== 'POST') throw new RequestError(405, 'method_not_allowed', 'Use POST.');
+      return openLiveSession(ip, res);
+    }
+    const release = pathname.match(/^\/api\/live-session\/([\w-]+)$/);
+    if (release) {
+      if (method !== 'DELETE') throw new RequestError(405, 'method_not_allowed', 'Use DELETE.');
+      limit(ip);
+      // Only the browser that was granted the session knows its key, so nobody else can free the slot.
+      const releaseKey = req.headers['x-release-key'];
+      if (typeof releaseKey !== 'string' || !sessionCaps.release(release[1], releaseKey)) {
+        throw new RequestError(404, 'not_found', 'No open live session with that id and key.');
+      }
+      return sendJson(res, 204);
+    }
+    if (pathname === '/api/speech') {
+      if (method !== 'POST') throw new RequestError(405, 'method_not_allowed', 'Use POST.');
+      return synthesizeSpeech(ip, req, res);
+    }
+    if (pathname === '/api/case-brief') {
+      if (method !== 'POST') throw new RequestError(405, 'method_not_allowed', 'Use POST.');
+      return draftCaseBrief(ip, req, res);
+    }
+    throw new RequestError(404, 'not_found', `No route for ${pathname}.`);
+  };
+
+  return createServer((req, res) => {
+    route(req, res).catch((err: unknown) => {
+      if (err instanceof RequestError) {
+        sendError(res, err.status, err.code, err.message, err.retryAfterMs);
+        return;
+      }
+      // Upstream messages can echo request details; keep them in the server log only.
+      console.error('Upstream request failed:', err);
+      sendError(res, 502, 'upstream_failed', 'The AI service could not complete the request.');
+    });
+  });
+}
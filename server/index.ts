@@ -0,0 +1,59 @@
+/**
+ * Entry point for the API backend (`npm run server`). Configuration comes from
+ * the environment:
+ *
+ *   GEMINI_API_KEY        required; never sent to the browser
+ *   PORT                  default 8787; `vite` proxies `/api` here in development
+ *   GEMINI_BASE_URL       overrides the Gemini endpoint
+ *   RATE_LIMIT_PER_MINUTE API requests per client IP per minute (default 20)
+ *   SESSIONS_PER_IP       concurrent live sessions per client IP (default 2)
+ *   MAX_SESSIONS          concurrent live sessions in total (default 20)
+ *   SESSION_MAX_MINUTES   hard length of one live session (default 30)
+ *   ALLOWED_ORIGINS       comma-separated browser origins; empty allows any
+ *   TRUST_PROXY           "true" to take the client IP from X-Forwarded-For
+ *   OPERATOR_TOKEN        enables the operator monitor relay; the dashboard at
+ *                         /operator asks for this token
+ */
+import { createBackend } from './app';
+import { createRateLimiter, createSessionCaps } from './limits';
+import { attachOperatorRelay } from './relay';
+import { createGeminiUpstream } from './upstream';
+
+const env = process.env;
+const number = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const apiKey = env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set; the backend has nothing to authenticate with.');
+  process.exit(1);
+}
+
+const port = number(env.PORT, 8787);
+const allowedOrigins = (env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+const maxSessions = number(env.MAX_SESSIONS, 20);
+const server = createBackend({
+  upstream: createGeminiUpstream({ apiKey, baseUrl: env.GEMINI_BASE_URL || undefined }),
+  rateLimiter: createRateLimiter({ limit: number(env.RATE_LIMIT_PER_MINUTE, 20), windowMs: 60 * 1000 }),
+  sessionCaps: createSessionCaps({
+    perIp: number(env.SESSIONS_PER_IP, 2),
+    total: maxSessions,
+    maxSessionMs: number(env.SESSION_MAX_MINUTES, 30) * 60 * 1000,
+  }),
+  allowedOrigins,
+  trustProxy: env.TRUST_PROXY === 'true',
+});
+
+if (env.OPERATOR_TOKEN) {
+  attachOperatorRelay(server, {
+    operatorToken: env.OPERATOR_TOKEN,
+    allowedOrigins,
+    maxSessions,
+    trustProxy: env.TRUST_PROXY === 'true',
+  });
+  console.log('Operator relay enabled.');
+}
+
+server.listen(port, () => console.log(`API backend listening on http://localhost:${port}`));
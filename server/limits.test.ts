@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter, createSessionCaps } from './limits';
+
+const clock = (start = 0) => {
+  const state = { now: start };
+  return { now: () => state.now, advance: (ms: number) => { state.now += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  it('refuses requests past the limit and says when to retry', () => {
+    const time = clock();
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000, now: time.now });
+    expect(limiter.take('a').allowed).toBe(true);
+    time.advance(400);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 600 });
+  });
+
+  it('frees slots as the window slides', () => {
+    const time = clock();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000, now: time.now });
+    limiter.take('a');
+    time.advance(1000);
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('counts each key separately', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+});
+
+describe('createSessionCaps', () => {
+  it('caps concurrent sessions per IP', () => {
+    const caps = createSessionCaps({ perIp: 1, total: 10, maxSessionMs: 1000 });
+    expect(caps.open('a').ok).toBe(true);
+    expect(caps.open('a')).toEqual({ ok: false, reason: 'ip_limit' });
+    expect(caps.open('b').ok).toBe(true);
+  });
+
+  it('caps concurrent sessions in total', () => {
+    const caps = createSessionCaps({ perIp: 5, total: 2, maxSessionMs: 1000 });
+    caps.open('a');
+    caps.open('b');
+    expect(caps.open('c')).toEqual({ ok: false, reason: 'total_limit' });
+  });
+
+  it('frees a slot on release', () => {
+    const caps = createSessionCaps({ perIp: 1, total: 10, maxSessionMs: 1000 });
+    const grant = caps.open('a');
+    expect(grant.ok && caps.release(grant.id, 'guess')).toBe(false);
+    expect(grant.ok && caps.release(grant.id, grant.releaseKey)).toBe(true);
+    expect(grant.ok && caps.release(grant.id, grant.releaseKey)).toBe(false);
+    expect(caps.open('a').ok).toBe(true);
+  });
+
+  it('frees a slot once the session expires', () => {
+    const time = clock(5000);
+    const caps = createSessionCaps({ perIp: 1, total: 10, maxSessionMs: 1000, now: time.now });
+    expect(caps.open('a')).toMatchObject({ ok: true, expiresAt: 6000 });
+    time.advance(1000);
+    expect(caps.active('a')).toBe(0);
+    expect(caps.open('a').ok).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+
+export type RateDecision = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+export interface RateLimiter {
+  /** Counts one request for `key`, refusing it once the window is full. */
+  take(key: string): RateDecision;
+}
+
+export interface RateLimiterOptions {
+  /** Requests allowed per key within `windowMs`. */
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+/** Keys are swept once the map grows past this, so one-off clients do not pile up. */
+const SWEEP_THRESHOLD = 10_000;
+
+/** A sliding-window limiter keyed by client IP. */
+export function createRateLimiter({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter {
+  const hits = new Map<string, number[]>();
+
+  const prune = (times: number[], at: number) => {
+    while (times.length && times[0] <= at - windowMs) times.shift();
+  };
+
+  return {
+    take(key) {
+      const at = now();
+      if (hits.size > SWEEP_THRESHOLD) {
+        for (const [k, times] of hits) {
+          prune(times, at);
+          if (!times.length) hits.delete(k);
+        }
+      }
+      const times = hits.get(key) ?? [];
+      prune(times, at);
+      if (times.length >= limit) {
+        hits.set(key, times);
+        return { allowed: false, retryAfterMs: times[0] + windowMs - at };
+      }
+      times.push(at);
+      hits.set(key, times);
+      return { allowed: true };
+    },
+  };
+}
+
+export interface SessionGrant {
+  id: string;
+  /** Secret only the holder of the grant knows; releasing the slot early requires it. */
+  releaseKey: string;
+  /** Epoch milliseconds after which the upstream token stops working. */
+  expiresAt: number;
+}
+
+export type SessionDecision =
+  | ({ ok: true } & SessionGrant)
+  | { ok: false; reason: 'ip_limit' | 'total_limit' };
+
+export interface SessionCaps {
+  open(ip: string): SessionDecision;
+  /** Frees a slot early, when the browser reports the session closed; false for an unknown id or wrong key. */
+  release(id: string, releaseKey: string): boolean;
+  active(ip?: string): number;
+}
+
+export interface SessionCapsOptions {
+  /** Concurrent live sessions one IP may hold. */
+  perIp: number;
+  /** Concurrent live sessions across all clients. */
+  total: number;
+  /** Hard length of a session; slots that are never released free up after this. */
+  maxSessionMs: number;
+  now?: () => number;
+}
+
+/**
+ * Tracks live sessions handed out by the backend. The upstream socket never
+ * passes through here, so a session counts as open until the browser releases
+ * it or its token expires.
+ */
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+export function createSessionCaps({ perIp, total, maxSessionMs, now = Date.now }: SessionCapsOptions): SessionCaps {
+  const sessions = new Map<string, { ip: string; expiresAt: number; releaseKey: Buffer }>();
+
+  const sweep = () => {
+    const at = now();
+    for (const [id, session] of sessions) {
+      if (session.expiresAt <= at) sessions.delete(id);
+    }
+  };
+
+  const active = (ip?: string) => {
+    sweep();
+    if (ip === undefined) return sessions.size;
+    let count = 0;
+    for (const session of sessions.values()) if (session.ip === ip) count++;
+    return count;
+  };
+
+  return {
+    open(ip) {
+      if (active() >= total) return { ok: false, reason: 'total_limit' };
+      if (active(ip) >= perIp) return { ok: false, reason: 'ip_limit' };
+      const id = randomUUID();
+      const releaseKey = randomBytes(24).toString('base64url');
+      const expiresAt = now() + maxSessionMs;
+      sessions.set(id, { ip, expiresAt, releaseKey: digest(releaseKey) });
+      return { ok: true, id, releaseKey, expiresAt };
+    },
+    release(id, releaseKey) {
+      const session = sessions.get(id);
+      if (!session || !timingSafeEqual(digest(releaseKey), session.releaseKey)) return false;
+      return sessions.delete(id);
+    },
+    active,
+  };
+}
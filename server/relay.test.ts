@@ -0,0 +1,201 @@
+import { AddressInfo } from 'node:net';
+import { Server, createServer } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { OperatorRelay, RELAY_OPERATOR_PATH, RELAY_SESSION_PATH, attachOperatorRelay } from './relay';
+import { SessionMirror } from '../services/operatorProtocol';
+
+const TOKEN = 'operator-secret';
+
+const mirror = (changes: Partial<SessionMirror> = {}): SessionMirror => ({
+  id: 'c-1',
+  startedAt: 1,
+  updatedAt: 2,
+  language: 'en',
+  status: 'listening',
+  mode: 'voice',
+  crisisStage: { stage: 'During', reasoning: 'Story is live' },
+  intake: { organization: 'Acme' },
+  transcriptions: [{ type: 'user', text: 'A reporter called.', timestamp: 1, status: 'final' }],
+  ...changes,
+});
+
+/** A client socket that queues what it receives, so tests can await the next message. */
+function connect(url: string) {
+  const socket = new WebSocket(url);
+  const received: any[] = [];
+  const waiting: ((message: any) => void)[] = [];
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString());
+    const resolve = waiting.shift();
+    if (resolve) resolve(message);
+    else received.push(message);
+  });
+  const opened = new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve());
+    socket.once('error', reject);
+  });
+  const next = () => new Promise<any>(resolve => (received.length ? resolve(received.shift()) : waiting.push(resolve)));
+  const closed = new Promise<number>(resolve => socket.once('close', code => resolve(code)));
+  return { socket, opened, next, closed, send: (message: object) => socket.send(JSON.stringify(message)) };
+}
+
+describe('operator relay', () => {
+  let server: Server;
+  let relay: OperatorRelay;
+  let base: string;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => res.writeHead(404).end());
+    relay = attachOperatorRelay(server, { operatorToken: TOKEN, maxSessions: 1, maxSessionsPerIp: 2, reconnectGraceMs: 500 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    relay.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  /** Waits until the relay has seen sockets close, which the client can learn before it does. */
+  const connectionsDropTo = async (count: number) => {
+    const current = () => new Promise<number>((resolve, reject) => server.getConnections((err, n) => (err ? reject(err) : resolve(n))));
+    while ((await current()) > count) await new Promise(resolve => setTimeout(resolve, 10));
+  };
+
+  const operator = async () => {
+    const client = connect(`${base}${RELAY_OPERATOR_PATH}?token=${TOKEN}`);
+    await client.opened;
+    return client;
+  };
+
+  it('refuses operators without the token', async () => {
+    const client = connect(`${base}${RELAY_OPERATOR_PATH}?token=guess`);
+    await expect(client.opened).rejects.toThrow(/401/);
+  });
+
+  it('mirrors sessions to operators and reports when they end', async () => {
+    const watcher = await operator();
+    expect(await watcher.next()).toEqual({ type: 'sessions', sessions: [] });
+
+    const session = connect(`${base}${RELAY_SESSION_PATH}`);
+    await session.opened;
+    session.send({ type: 'mirror', session: mirror() });
+    const update = await watcher.next();
+    expect(update).toMatchObject({ type: 'session', session: { mirror: { id: 'c-1', intake: { organization: 'Acme' } }, callbackFlagged: false } });
+
+    const late = await operator();
+    expect((await late.next()).sessions).toHaveLength(1);
+
+    session.socket.close(1000);
+    expect(await watcher.next()).toEqual({ type: 'ended', sessionId: 'c-1' });
+    expect(relay.sessions()).toEqual([]);
+    watcher.socket.close();
+    late.socket.close();
+  });
+
+  it('forwards guidance and callback flags to the session', async () => {
+    const session = connect(`${base}${RELAY_SESSION_PATH}`);
+    await session.opened;
+    session.send({ type: 'mirror', session: mirror() });
+    const watcher = await operator();
+    await watcher.next();
+
+    watcher.send({ type: 'guidance', sessionId: 'c-1', text: '  Ask who the reporter works for.  ' });
+    expect(await session.next()).toEqual({ type: 'guidance', text: 'Ask who the reporter works for.' });
+    expect((await watcher.next()).session.guidance).toEqual([{ text: 'Ask who the reporter works for.', at: expect.any(Number) }]);
+
+    watcher.send({ type: 'callbackFlag', sessionId: 'c-1', flagged: true });
+    expect(await session.next()).toEqual({ type: 'callbackFlag', flagged: true });
+    expect((await watcher.next()).session.callbackFlagged).toBe(true);
+
+    watcher.send({ type: 'guidance', sessionId: 'c-2', text: 'Hello' });
+    expect(await watcher.next()).toEqual({ type: 'error', message: 'That session has ended.' });
+    session.socket.close();
+    watcher.socket.close();
+  });
+
+  it('hands a session over to a second connection with its guidance and flag', async () => {
+    const first = connect(`${base}${RELAY_SESSION_PATH}`);
+    await first.opened;
+    first.send({ type: 'mirror', session: mirror() });
+    const watcher = await operator();
+    await watcher.next();
+    watcher.send({ type: 'guidance', sessionId: 'c-1', text: 'Hold the statement.' });
+    watcher.send({ type: 'callbackFlag', sessionId: 'c-1', flagged: true });
+    await first.next();
+    await first.next();
+
+    const second = connect(`${base}${RELAY_SESSION_PATH}`);
+    await second.opened;
+    second.send({ type: 'mirror', session: mirror({ updatedAt: 3 }) });
+    expect(await second.next()).toEqual({ type: 'callbackFlag', flagged: true });
+    expect(await first.closed).toBe(1006);
+    expect(relay.sessions()).toEqual([
+      { mirror: mirror({ updatedAt: 3 }), guidance: [{ text: 'Hold the statement.', at: expect.any(Number) }], callbackFlagged: true },
+    ]);
+    second.socket.close(1000);
+    watcher.socket.close();
+  });
+
+  it('keeps a dropped session for a reconnect and delivers what it missed', async () => {
+    const first = connect(`${base}${RELAY_SESSION_PATH}`);
+    await first.opened;
+    first.send({ type: 'mirror', session: mirror() });
+    const watcher = await operator();
+    await watcher.next();
+    watcher.send({ type: 'callbackFlag', sessionId: 'c-1', flagged: true });
+    await first.next();
+    await watcher.next();
+
+    first.socket.terminate();
+    await first.closed;
+    await connectionsDropTo(1);
+    watcher.send({ type: 'guidance', sessionId: 'c-1', text: 'Ask about the deadline.' });
+    expect((await watcher.next()).session.guidance).toHaveLength(1);
+
+    const second = connect(`${base}${RELAY_SESSION_PATH}`);
+    await second.opened;
+    second.send({ type: 'mirror', session: mirror() });
+    expect(await second.next()).toEqual({ type: 'callbackFlag', flagged: true });
+    expect(await second.next()).toEqual({ type: 'guidance', text: 'Ask about the deadline.' });
+    expect(await watcher.next()).toMatchObject({ type: 'session', session: { callbackFlagged: true, guidance: [{ text: 'Ask about the deadline.' }] } });
+
+    second.socket.terminate();
+    expect(await watcher.next()).toEqual({ type: 'ended', sessionId: 'c-1' });
+    expect(relay.sessions()).toEqual([]);
+    watcher.socket.close();
+  });
+
+  it('drops sessions that send invalid mirrors or exceed the cap', async () => {
+    const bad = connect(`${base}${RELAY_SESSION_PATH}`);
+    await bad.opened;
+    bad.send({ type: 'mirror', session: mirror({ status: 'dancing' as never }) });
+    expect(await bad.closed).toBe(1008);
+
+    const first = connect(`${base}${RELAY_SESSION_PATH}`);
+    await first.opened;
+    first.send({ type: 'mirror', session: mirror() });
+    const second = connect(`${base}${RELAY_SESSION_PATH}`);
+    await second.opened;
+    second.send({ type: 'mirror', session: mirror({ id: 'c-2' }) });
+    expect(await second.closed).toBe(1013);
+    expect(relay.sessions().map(s => s.mirror.id)).toEqual(['c-1']);
+    first.socket.close();
+  });
+
+  it('limits how many session sockets one IP may hold', async () => {
+    const first = connect(`${base}${RELAY_SESSION_PATH}`);
+    const second = connect(`${base}${RELAY_SESSION_PATH}`);
+    await Promise.all([first.opened, second.opened]);
+    const third = connect(`${base}${RELAY_SESSION_PATH}`);
+    await expect(third.opened).rejects.toThrow(/429/);
+
+    first.socket.close();
+    await first.closed;
+    const replacement = connect(`${base}${RELAY_SESSION_PATH}`);
+    await replacement.opened;
+    second.socket.close();
+    replacement.socket.close();
+  });
+});
@@ -0,0 +1,225 @@
+import { IncomingMessage, Server } from 'node:http';
+import { Duplex } from 'node:stream';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import {
+  MonitoredSession,
+  OperatorProtocolError,
+  RelayToOperator,
+  RelayToSession,
+  parseOperatorMessage,
+  parseSessionMessage,
+} from '../services/operatorProtocol';
+import { clientIp } from './app';
+
+export const RELAY_SESSION_PATH = '/api/relay/session';
+export const RELAY_OPERATOR_PATH = '/api/relay/operator';
+
+/** A mirror carries at most `MAX_MIRRORED_ENTRIES` turns; this leaves room for long ones. */
+const MAX_MESSAGE_BYTES = 512 * 1024;
+const MAX_GUIDANCE_HISTORY = 20;
+
+export interface OperatorRelayOptions {
+  /** Shared secret operators pass as `?token=`; sessions need none. */
+  operatorToken: string;
+  /** Browser origins allowed to connect. Empty allows any, for same-origin deployments. */
+  allowedOrigins?: string[];
+  /** Sessions mirrored at once; further consultations run unmirrored. */
+  maxSessions?: number;
+  /**
+   * Session sockets one IP may hold open, so a single client cannot fill
+   * `maxSessions` with fake mirrors. A reconnecting consultation briefly holds two.
+   */
+  maxSessionsPerIp?: number;
+  /** Read the client IP from `X-Forwarded-For`; only enable behind a proxy that sets it. */
+  trustProxy?: boolean;
+  /** Sockets that miss a ping for this long are dropped, so dead sessions leave the dashboard. */
+  heartbeatMs?: number;
+  /**
+   * How long a session that dropped without closing cleanly keeps its entry,
+   * guidance and callback flag, so the consultation can reconnect to them.
+   */
+  reconnectGraceMs?: number;
+  now?: () => number;
+}
+
+export interface OperatorRelay {
+  sessions(): MonitoredSession[];
+  close(): void;
+}
+
+interface SessionEntry {
+  /** Null while the consultation is reconnecting. */
+  socket: WebSocket | null;
+  monitored: MonitoredSession;
+  /** Guidance sent while the consultation was reconnecting, delivered when it is back. */
+  undelivered: string[];
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+function refuse(socket: Duplex, status: number, reason: string) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+const send = (socket: WebSocket, message: RelayToOperator | RelayToSession) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+/**
+ * Mirrors live consultations to operator dashboards over WebSockets on the
+ * backend's own port. Each consultation publishes its transcript, stage and
+ * intake; operators see every session and can send guidance to the agent or
+ * flag a session for a personal callback. A session that drops keeps its
+ * entry for a grace period; nothing is stored once it ends.
+ */
+export function attachOperatorRelay(server: Server, {
+  operatorToken,
+  allowedOrigins = [],
+  maxSessions = 20,
+  maxSessionsPerIp = 3,
+  trustProxy = false,
+  heartbeatMs = 30 * 1000,
+  reconnectGraceMs = 60 * 1000,
+  now = Date.now,
+}: OperatorRelayOptions): OperatorRelay {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const sessions = new Map<string, SessionEntry>();
+  const operators = new Set<WebSocket>();
+  const alive = new WeakSet<WebSocket>();
+  const socketsPerIp = new Map<string, number>();
+  const expectedToken = digest(operatorToken);
+
+  const broadcast = (message: RelayToOperator) => operators.forEach(operator => send(operator, message));
+  const monitored = () => [...sessions.values()].map(entry => entry.monitored);
+
+  const end = (id: string) => {
+    clearTimeout(sessions.get(id)?.expiry);
+    sessions.delete(id);
+    broadcast({ type: 'ended', sessionId: id });
+  };
+
+  const acceptSession = (socket: WebSocket) => {
+    let id: string | null = null;
+    socket.on('message', (data: RawData) => {
+      let session;
+      try {
+        ({ session } = parseSessionMessage(data.toString()));
+      } catch (err) {
+        socket.close(1008, err instanceof OperatorProtocolError ? err.message : 'Invalid message.');
+        return;
+      }
+      if (id && session.id !== id) {
+        socket.close(1008, 'A connection mirrors one consultation.');
+        return;
+      }
+      const existing = sessions.get(session.id);
+      if (!existing && sessions.size >= maxSessions) {
+        socket.close(1013, 'The relay is mirroring the maximum number of sessions.');
+        return;
+      }
+      id = session.id;
+      const entry: SessionEntry = {
+        socket,
+        monitored: { mirror: session, guidance: existing?.monitored.guidance ?? [], callbackFlagged: existing?.monitored.callbackFlagged ?? false },
+        undelivered: [],
+      };
+      sessions.set(session.id, entry);
+      // A reconnecting consultation takes over its entry and is brought up to date.
+      if (existing && existing.socket !== socket) {
+        clearTimeout(existing.expiry);
+        existing.socket?.terminate();
+        if (entry.monitored.callbackFlagged) send(socket, { type: 'callbackFlag', flagged: true });
+        existing.undelivered.forEach(text => send(socket, { type: 'guidance', text }));
+      }
+      broadcast({ type: 'session', session: entry.monitored });
+    });
+    socket.on('close', (code: number) => {
+      const entry = id && sessions.get(id);
+      if (!entry || entry.socket !== socket) return;
+      if (code === 1000) return end(id);
+      entry.socket = null;
+      entry.expiry = setTimeout(() => end(id), reconnectGraceMs);
+      entry.expiry.unref();
+    });
+  };
+
+  const acceptOperator = (socket: WebSocket) => {
+    operators.add(socket);
+    send(socket, { type: 'sessions', sessions: monitored() });
+    socket.on('message', (data: RawData) => {
+      let message;
+      try {
+        message = parseOperatorMessage(data.toString());
+      } catch (err) {
+        send(socket, { type: 'error', message: err instanceof OperatorProtocolError ? err.message : 'Invalid message.' });
+        return;
+      }
+      const entry = sessions.get(message.sessionId);
+      if (!entry) {
+        send(socket, { type: 'error', message: 'That session has ended.' });
+        return;
+      }
+      if (message.type === 'guidance') {
+        entry.monitored.guidance = [...entry.monitored.guidance, { text: message.text, at: now() }].slice(-MAX_GUIDANCE_HISTORY);
+        if (entry.socket) send(entry.socket, { type: 'guidance', text: message.text });
+        else entry.undelivered = [...entry.undelivered, message.text].slice(-MAX_GUIDANCE_HISTORY);
+      } else {
+        // The flag is re-sent on reconnect, so a reconnecting session only needs the stored value.
+        entry.monitored.callbackFlagged = message.flagged;
+        if (entry.socket) send(entry.socket, { type: 'callbackFlag', flagged: message.flagged });
+      }
+      broadcast({ type: 'session', session: entry.monitored });
+    });
+    socket.on('close', () => operators.delete(socket));
+  };
+
+  const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://backend');
+    if (pathname !== RELAY_SESSION_PATH && pathname !== RELAY_OPERATOR_PATH) return refuse(socket, 404, 'Not Found');
+    const origin = req.headers.origin;
+    if (origin && allowedOrigins.length && !allowedOrigins.includes(origin)) return refuse(socket, 403, 'Forbidden');
+    const isOperator = pathname === RELAY_OPERATOR_PATH;
+    if (isOperator && !timingSafeEqual(digest(searchParams.get('token') ?? ''), expectedToken)) return refuse(socket, 401, 'Unauthorized');
+    const ip = clientIp(req, trustProxy);
+    if (!isOperator && (socketsPerIp.get(ip) ?? 0) >= maxSessionsPerIp) return refuse(socket, 429, 'Too Many Requests');
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      alive.add(ws);
+      ws.on('pong', () => alive.add(ws));
+      if (isOperator) {
+        acceptOperator(ws);
+        return;
+      }
+      socketsPerIp.set(ip, (socketsPerIp.get(ip) ?? 0) + 1);
+      ws.on('close', () => {
+        const left = (socketsPerIp.get(ip) ?? 1) - 1;
+        if (left) socketsPerIp.set(ip, left);
+        else socketsPerIp.delete(ip);
+      });
+      acceptSession(ws);
+    });
+  };
+  server.on('upgrade', onUpgrade);
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, heartbeatMs);
+  heartbeat.unref();
+
+  return {
+    sessions: monitored,
+    close() {
+      clearInterval(heartbeat);
+      sessions.forEach(entry => clearTimeout(entry.expiry));
+      server.off('upgrade', onUpgrade);
+      wss.clients.forEach(ws => ws.terminate());
+      wss.close();
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Runs only the operator relay (`npm run relay`), for trying the monitor
+ * offline with `LIVE_TRANSPORT=mock`; no Gemini key is needed. Takes PORT,
+ * OPERATOR_TOKEN and ALLOWED_ORIGINS as `index.ts` does.
+ */
+import { createServer } from 'node:http';
+import { attachOperatorRelay } from './relay';
+
+const env = process.env;
+const port = Number(env.PORT) || 8787;
+
+if (!env.OPERATOR_TOKEN) {
+  console.error('OPERATOR_TOKEN is not set; operators would have no way to sign in.');
+  process.exit(1);
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'not_found', message: 'Only the operator relay runs here.' }));
+});
+attachOperatorRelay(server, {
+  operatorToken: env.OPERATOR_TOKEN,
+  allowedOrigins: (env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean),
+});
+
+server.listen(port, () => console.log(`Operator relay listening on ws://localhost:${port}`));
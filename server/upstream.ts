@@ -0,0 +1,79 @@
+import { GoogleGenAI, Modality, Schema } from '@google/genai';
+import { LIVE_FIXED_CONFIG, LIVE_MODEL } from '../services/liveTransport';
+
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+export interface LiveTokenRequest {
+  /** ISO time after which the token's session is cut off. */
+  expireTime: string;
+  /** ISO time after which the token can no longer open a session. */
+  newSessionExpireTime: string;
+}
+
+export interface JsonRequest {
+  systemInstruction: string;
+  prompt: string;
+  schema: Schema;
+}
+
+/** The Gemini calls the backend makes on the browser's behalf. Tests swap in a local stand-in. */
+export interface Upstream {
+  /** Mints a single-use ephemeral token for one live session, usable only with the app's live model and fixed settings. */
+  createLiveToken(request: LiveTokenRequest): Promise<string>;
+  /** Returns base64 24 kHz PCM of `text` in the given prebuilt voice. */
+  synthesizeSpeech(text: string, voiceName: string): Promise<string>;
+  /** Runs a text prompt constrained to `schema` and returns the parsed JSON. */
+  generateJson(request: JsonRequest): Promise<unknown>;
+}
+
+export interface GeminiUpstreamOptions {
+  apiKey: string;
+  /** Overrides the Gemini endpoint, e.g. to point at a local stand-in. */
+  baseUrl?: string;
+}
+
+export function createGeminiUpstream({ apiKey, baseUrl }: GeminiUpstreamOptions): Upstream {
+  // Ephemeral tokens only exist in v1alpha.
+  const tokens = new GoogleGenAI({ apiKey, httpOptions: { baseUrl, apiVersion: 'v1alpha' } });
+  const models = new GoogleGenAI({ apiKey, httpOptions: { baseUrl } });
+
+  return {
+    async createLiveToken({ expireTime, newSessionExpireTime }) {
+      const token = await tokens.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime,
+          newSessionExpireTime,
+          liveConnectConstraints: { model: LIVE_MODEL, config: LIVE_FIXED_CONFIG },
+          // Locks only the fields set above; the rest of the config stays with the browser.
+          lockAdditionalFields: [],
+        },
+      });
+      if (!token.name) throw new Error('Gemini returned a token without a name.');
+      return token.name;
+    },
+    async synthesizeSpeech(text, voiceName) {
+      const response = await models.models.generateContent({
+        model: SPEECH_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+        },
+      });
+      const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!data) throw new Error('Gemini returned speech without audio.');
+      return data;
+    },
+    async generateJson({ systemInstruction, prompt, schema }) {
+      const response = await models.models.generateContent({
+        model: TEXT_MODEL,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: { systemInstruction, responseMimeType: 'application/json', responseSchema: schema },
+      });
+      if (!response.text) throw new Error('Gemini returned an empty response.');
+      return JSON.parse(response.text);
+    },
+  };
+}
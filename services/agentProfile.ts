@@ -0,0 +1,215 @@
+import { AgentProfile, AgentToolName, Language, LocalizedText } from '../types';
+import { SPEAKING_PACES, VOICE_NAMES } from './voiceSettings';
+import { AGENT_TOOLS } from './tools';
+import { isAllowedHost } from './linkPolicy';
+import { isValidTimeZone, parseClockTime } from './scheduling';
+
+export const AGENT_PROFILE_URL = 'agent-profile.json';
+
+export const AGENT_TOOL_NAMES: AgentToolName[] = AGENT_TOOLS.map(tool => tool.name);
+
+/** Thrown when the deployment's profile is missing or malformed; lists every problem found. */
+export class AgentProfileError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length ? `${message}\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'AgentProfileError';
+  }
+}
+
+type Issues = string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkString(value: unknown, path: string, issues: Issues, optional = false) {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string' || !value.trim()) issues.push(`${path} must be a non-empty string`);
+}
+
+function checkUrl(value: unknown, path: string, issues: Issues, optional = false) {
+  if (value === undefined && optional) return;
+  checkString(value, path, issues);
+  if (typeof value !== 'string') return;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') issues.push(`${path} must be an http(s) URL`);
+  } catch {
+    issues.push(`${path} must be a valid URL`);
+  }
+}
+
+function checkLocalized(value: unknown, path: string, issues: Issues) {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object like { "en": "...", "it": "..." }`);
+    return;
+  }
+  checkString(value.en, `${path}.en`, issues);
+  checkString(value.it, `${path}.it`, issues, true);
+}
+
+function section(value: unknown, path: string, issues: Issues): Record<string, unknown> {
+  if (isObject(value)) return value;
+  issues.push(`${path} must be an object`);
+  return {};
+}
+
+function checkInteger(value: unknown, path: string, min: number, max: number, issues: Issues) {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    issues.push(`${path} must be a whole number from ${min} to ${max}`);
+  }
+}
+
+function checkScheduling(value: unknown, issues: Issues) {
+  const scheduling = section(value, 'scheduling', issues);
+  if (!Array.isArray(scheduling.windows) || !scheduling.windows.length) {
+    issues.push('scheduling.windows must be a non-empty array of availability windows');
+  } else {
+    scheduling.windows.forEach((window, i) => {
+      const w = section(window, `scheduling.windows[${i}]`, issues);
+      checkString(w.label, `scheduling.windows[${i}].label`, issues);
+      if (typeof w.timeZone !== 'string' || !isValidTimeZone(w.timeZone)) {
+        issues.push(`scheduling.windows[${i}].timeZone must be an IANA timezone such as "America/New_York"`);
+      }
+      if (!Array.isArray(w.days) || !w.days.length || w.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        issues.push(`scheduling.windows[${i}].days must list weekdays as numbers (0 = Sunday … 6 = Saturday)`);
+      }
+      const start = typeof w.start === 'string' ? parseClockTime(w.start) : null;
+      const end = typeof w.end === 'string' ? parseClockTime(w.end) : null;
+      if (start === null || end === null || start >= end) {
+        issues.push(`scheduling.windows[${i}].start and .end must be "HH:MM" times with start before end`);
+      }
+    });
+  }
+  checkInteger(scheduling.slotMinutes, 'scheduling.slotMinutes', 15, 240, issues);
+  checkInteger(scheduling.minNoticeHours, 'scheduling.minNoticeHours', 0, 168, issues);
+  checkInteger(scheduling.horizonDays, 'scheduling.horizonDays', 1, 60, issues);
+}
+
+/** Checks untrusted JSON against the `AgentProfile` shape, collecting every issue rather than stopping at the first. */
+export function validateAgentProfile(raw: unknown): AgentProfile {
+  const issues: Issues = [];
+  const profile = section(raw, 'profile', issues);
+
+  if (typeof profile.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(profile.id)) {
+    issues.push('id must be a lowercase slug such as "rich-klein" (it names exported files)');
+  }
+
+  const branding = section(profile.branding, 'branding', issues);
+  checkString(branding.consultantName, 'branding.consultantName', issues);
+  checkString(branding.firmName, 'branding.firmName', issues);
+  checkString(branding.initials, 'branding.initials', issues);
+  checkLocalized(branding.subtitle, 'branding.subtitle', issues);
+  checkLocalized(branding.tagline, 'branding.tagline', issues);
+  const hero = section(branding.hero, 'branding.hero', issues);
+  checkLocalized(hero.headline, 'branding.hero.headline', issues);
+  checkLocalized(hero.headlineAccent, 'branding.hero.headlineAccent', issues);
+  checkLocalized(hero.intro, 'branding.hero.intro', issues);
+  if (!Array.isArray(branding.features)) {
+    issues.push('branding.features must be an array');
+  } else {
+    branding.features.forEach((feature, i) => {
+      const f = section(feature, `branding.features[${i}]`, issues);
+      checkLocalized(f.title, `branding.features[${i}].title`, issues);
+      checkLocalized(f.description, `branding.features[${i}].description`, issues);
+    });
+  }
+  checkLocalized(branding.footer, 'branding.footer', issues);
+
+  const persona = section(profile.persona, 'persona', issues);
+  checkLocalized(persona.greeting, 'persona.greeting', issues);
+  checkString(persona.prompt, 'persona.prompt', issues);
+
+  const links = section(profile.links, 'links', issues);
+  checkUrl(links.testimonials, 'links.testimonials', issues, true);
+  checkUrl(links.linkedin, 'links.linkedin', issues, true);
+  if (links.show !== undefined) {
+    const show = section(links.show, 'links.show', issues);
+    checkString(show.title, 'links.show.title', issues);
+    checkUrl(show.url, 'links.show.url', issues);
+  }
+  const allowedDomains = Array.isArray(links.allowedDomains) ? links.allowedDomains : [];
+  if (!Array.isArray(links.allowedDomains)) {
+    issues.push('links.allowedDomains must be an array of hostnames (e.g. ["example.com"])');
+  } else {
+    allowedDomains.forEach((domain, i) => {
+      if (typeof domain !== 'string' || !/^([a-z0-9-]+\.)+[a-z]{2,}$/i.test(domain)) {
+        issues.push(`links.allowedDomains[${i}] must be a bare hostname such as "example.com"`);
+      }
+    });
+  }
+  if (!Array.isArray(links.resources)) {
+    issues.push('links.resources must be an array');
+  } else {
+    links.resources.forEach((resource, i) => {
+      const r = section(resource, `links.resources[${i}]`, issues);
+      checkUrl(r.url, `links.resources[${i}].url`, issues);
+      if (typeof r.url === 'string' && URL.canParse(r.url) && !isAllowedHost(new URL(r.url).hostname, allowedDomains as string[])) {
+        issues.push(`links.resources[${i}].url is not on an allowed domain`);
+      }
+      checkString(r.siteName, `links.resources[${i}].siteName`, issues);
+      checkLocalized(r.description, `links.resources[${i}].description`, issues);
+      checkString(r.favicon, `links.resources[${i}].favicon`, issues, true);
+    });
+  }
+
+  const escalation = section(profile.escalation, 'escalation', issues);
+  if (escalation.whatsappNumber !== undefined) {
+    checkString(escalation.whatsappNumber, 'escalation.whatsappNumber', issues);
+    const digits = String(escalation.whatsappNumber).replace(/\D/g, '');
+    if (digits.length < 8 || digits.length > 15) {
+      issues.push('escalation.whatsappNumber must be a full international number (8-15 digits, country code first)');
+    }
+  }
+  checkString(escalation.phone, 'escalation.phone', issues, true);
+  if (escalation.email !== undefined && (typeof escalation.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(escalation.email))) {
+    issues.push('escalation.email must be a valid email address');
+  }
+
+  const schedulingEnabled = Array.isArray(profile.tools) && profile.tools.includes('schedule_callback');
+  if (profile.scheduling !== undefined || schedulingEnabled) {
+    checkScheduling(profile.scheduling, issues);
+  }
+
+  if (!Array.isArray(profile.tools)) {
+    issues.push(`tools must be an array of tool names (${AGENT_TOOL_NAMES.join(', ')})`);
+  } else {
+    profile.tools.forEach((tool, i) => {
+      if (!AGENT_TOOL_NAMES.includes(tool)) issues.push(`tools[${i}] "${tool}" is not a known tool (${AGENT_TOOL_NAMES.join(', ')})`);
+    });
+  }
+
+  const voice = section(profile.defaultVoice, 'defaultVoice', issues);
+  if (!VOICE_NAMES.includes(voice.voiceName as never)) issues.push(`defaultVoice.voiceName must be one of ${VOICE_NAMES.join(', ')}`);
+  if (!SPEAKING_PACES.includes(voice.pace as never)) issues.push(`defaultVoice.pace must be one of ${SPEAKING_PACES.join(', ')}`);
+
+  if (issues.length) throw new AgentProfileError('The agent profile is invalid:', issues);
+  return raw as AgentProfile;
+}
+
+export async function loadAgentProfile(url: string = AGENT_PROFILE_URL): Promise<AgentProfile> {
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: 'no-cache' });
+  } catch (err) {
+    throw new AgentProfileError(`The agent profile could not be fetched from "${url}": ${(err as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new AgentProfileError(`The agent profile could not be loaded from "${url}" (HTTP ${response.status}).`);
+  }
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch (err) {
+    throw new AgentProfileError(`The agent profile at "${url}" is not valid JSON: ${(err as Error).message}`);
+  }
+  return validateAgentProfile(raw);
+}
+
+export function localize(text: LocalizedText, language: Language): string {
+  return (language !== 'en' && text[language]) || text.en;
+}
+
+/** Replaces `{name}` placeholders, leaving unknown ones untouched. */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { classifyMicError, micConstraints, resolveDevices } from './audioDevices';
+
+const device = (kind: MediaDeviceKind, deviceId: string) => ({ kind, deviceId, label: '', groupId: '' }) as MediaDeviceInfo;
+
+describe('classifyMicError', () => {
+  it.each([
+    ['NotAllowedError', 'denied'],
+    ['SecurityError', 'denied'],
+    ['NotFoundError', 'notFound'],
+    ['OverconstrainedError', 'notFound'],
+    ['NotReadableError', 'unavailable'],
+  ])('maps %s to %s', (name, problem) => {
+    expect(classifyMicError(new DOMException('', name))).toBe(problem);
+  });
+
+  it('treats anything else as unavailable', () => {
+    expect(classifyMicError(new TypeError('mediaDevices is undefined'))).toBe('unavailable');
+  });
+});
+
+describe('micConstraints', () => {
+  it('uses the default microphone unless one is chosen', () => {
+    expect(micConstraints({ inputId: '', outputId: '' })).toBe(true);
+    expect(micConstraints({ inputId: 'usb', outputId: '' })).toEqual({ deviceId: { exact: 'usb' } });
+  });
+});
+
+describe('resolveDevices', () => {
+  it('falls back to the default for devices that are gone', () => {
+    const lists = { inputs: [device('audioinput', 'usb')], outputs: [device('audiooutput', 'hdmi')] };
+    expect(resolveDevices({ inputId: 'usb', outputId: 'bluetooth' }, lists)).toEqual({ inputId: 'usb', outputId: '' });
+  });
+});
@@ -0,0 +1,70 @@
+import { AudioDeviceSelection } from '../types';
+
+const STORAGE_KEY = 'rk-audio-devices';
+
+export const DEFAULT_DEVICES: AudioDeviceSelection = { inputId: '', outputId: '' };
+
+export type MicProblem = 'denied' | 'notFound' | 'unavailable';
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/** Sorts a failed `getUserMedia` into the cases the caller can do something about. */
+export function classifyMicError(err: unknown): MicProblem {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'notFound';
+  return 'unavailable';
+}
+
+/** Audio constraints for `getUserMedia`; a chosen device is required exactly so a wrong headset is never picked silently. */
+export function micConstraints(selection: AudioDeviceSelection): MediaTrackConstraints | true {
+  return selection.inputId ? { deviceId: { exact: selection.inputId } } : true;
+}
+
+/** Drops saved IDs for devices that are no longer plugged in, falling back to the system default. */
+export function resolveDevices(selection: AudioDeviceSelection, devices: AudioDeviceLists): AudioDeviceSelection {
+  const present = (list: MediaDeviceInfo[], id: string) => (list.some(device => device.deviceId === id) ? id : '');
+  return { inputId: present(devices.inputs, selection.inputId), outputId: present(devices.outputs, selection.outputId) };
+}
+
+/** Labels are only filled in once microphone permission has been granted. */
+export async function listAudioDevices(): Promise<AudioDeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const usable = (kind: MediaDeviceKind) => devices.filter(device => device.kind === kind && device.deviceId && device.deviceId !== 'default');
+  return { inputs: usable('audioinput'), outputs: usable('audiooutput') };
+}
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/** Only Chromium-based browsers can route an AudioContext to a chosen speaker; elsewhere the system default is used. */
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+export async function applyOutputDevice(ctx: AudioContext, outputId: string): Promise<void> {
+  const sinkable = ctx as SinkableAudioContext;
+  if (outputId && sinkable.setSinkId) await sinkable.setSinkId(outputId);
+}
+
+export function loadDeviceSelection(): AudioDeviceSelection {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      inputId: typeof stored?.inputId === 'string' ? stored.inputId : '',
+      outputId: typeof stored?.outputId === 'string' ? stored.outputId : '',
+    };
+  } catch {
+    return DEFAULT_DEVICES;
+  }
+}
+
+export function saveDeviceSelection(selection: AudioDeviceSelection) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch {
+    // Not persisting is fine; the choice still applies for this visit.
+  }
+}
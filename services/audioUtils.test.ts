@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PcmFormatError,
+  bytesToInt16,
+  createBlob,
+  createPcmBlob,
+  decode,
+  decodeAudioData,
+  encode,
+  encodeWav,
+  float32ToInt16,
+  int16ToBytes,
+  int16ToFloat32,
+} from './audioUtils';
+
+/** Just enough of an AudioContext for `decodeAudioData`, which only creates a buffer. */
+const fakeContext = () => ({
+  createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return { numberOfChannels, length, sampleRate, getChannelData: (c: number) => channels[c] };
+  },
+}) as unknown as BaseAudioContext;
+
+describe('encode / decode', () => {
+  it('round-trips arbitrary bytes', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('matches btoa for a known value', () => {
+    expect(encode(new Uint8Array([0x52, 0x4b]))).toBe('Uks=');
+  });
+
+  it('handles payloads larger than one chunk', () => {
+    const bytes = Uint8Array.from({ length: 100_000 }, (_, i) => (i * 31) & 0xff);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('only encodes the bytes inside a view', () => {
+    const backing = new Uint8Array([9, 9, 1, 2, 9]);
+    expect(decode(encode(backing.subarray(2, 4)))).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it('tolerates line breaks in base64', () => {
+    expect(decode('Uk\nsA\r\n')).toEqual(new Uint8Array([0x52, 0x4b, 0x00]));
+  });
+
+  it.each(['abc', 'ab$d', 'Uks==', '=Uks'])('rejects malformed base64 %j', (input) => {
+    expect(() => decode(input)).toThrow(PcmFormatError);
+  });
+});
+
+describe('float32ToInt16', () => {
+  it('clamps full scale instead of wrapping around', () => {
+    expect(Array.from(float32ToInt16(new Float32Array([1, -1, 1.5, -2])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('maps silence and NaN to zero', () => {
+    expect(Array.from(float32ToInt16(new Float32Array([0, NaN])))).toEqual([0, 0]);
+  });
+
+  it('rounds to the nearest sample', () => {
+    expect(float32ToInt16(new Float32Array([0.5]))[0]).toBe(16384);
+  });
+});
+
+describe('bytesToInt16 / int16ToBytes', () => {
+  it('uses little-endian byte order', () => {
+    expect(Array.from(int16ToBytes(new Int16Array([0x0102, -2])))).toEqual([0x02, 0x01, 0xfe, 0xff]);
+    expect(Array.from(bytesToInt16(new Uint8Array([0x02, 0x01, 0xfe, 0xff])))).toEqual([0x0102, -2]);
+  });
+
+  it('honours the byteOffset of a view into a larger buffer', () => {
+    const backing = new Uint8Array([0xaa, 0x01, 0x00, 0x02, 0x00]);
+    expect(Array.from(bytesToInt16(backing.subarray(1)))).toEqual([1, 2]);
+  });
+
+  it('rejects an odd number of bytes', () => {
+    expect(() => bytesToInt16(new Uint8Array(3))).toThrow(PcmFormatError);
+  });
+
+  it('round-trips through float32', () => {
+    const samples = new Int16Array([-32768, -1, 0, 1, 32767]);
+    expect(float32ToInt16(int16ToFloat32(samples))).toEqual(new Int16Array([-32768, -1, 0, 1, 32767]));
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('de-interleaves stereo frames', async () => {
+    const bytes = int16ToBytes(new Int16Array([16384, -16384, 0, 32767]));
+    const buffer = await decodeAudioData(bytes, fakeContext(), 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, 32767 / 32768]);
+  });
+
+  it('decodes a base64 payload that starts mid-buffer', async () => {
+    const backing = new Uint8Array([0, ...int16ToBytes(new Int16Array([8192]))]);
+    const buffer = await decodeAudioData(backing.subarray(1), fakeContext(), 24000, 1);
+    expect(buffer.getChannelData(0)[0]).toBe(0.25);
+  });
+
+  it('rejects payloads that do not split across channels', async () => {
+    await expect(decodeAudioData(new Uint8Array(6), fakeContext(), 24000, 2)).rejects.toThrow(PcmFormatError);
+  });
+
+  it('rejects empty payloads', async () => {
+    await expect(decodeAudioData(new Uint8Array(0), fakeContext(), 24000, 1)).rejects.toThrow(PcmFormatError);
+  });
+});
+
+describe('createPcmBlob / createBlob', () => {
+  it('labels the sample rate in the mime type', () => {
+    expect(createPcmBlob(new Int16Array([1]), 16000).mimeType).toBe('audio/pcm;rate=16000');
+  });
+
+  it('encodes clamped little-endian samples', () => {
+    const blob = createBlob(new Float32Array([1, -1]));
+    expect(Array.from(decode(blob.data))).toEqual([0xff, 0x7f, 0x00, 0x80]);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a valid stereo PCM header and interleaved data', () => {
+    const wav = encodeWav([new Int16Array([1, 2]), new Int16Array([-1, -2])], 24000);
+    const view = new DataView(wav.buffer);
+    const text = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+
+    expect(text(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(text(8)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 2 * 2);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(Array.from(bytesToInt16(wav.subarray(44)))).toEqual([1, -1, 2, -2]);
+  });
+});
@@ -1,6 +1,20 @@
+/** Thrown for audio payloads that cannot be valid 16-bit PCM, rather than playing noise. */
+export class PcmFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PcmFormatError';
+  }
+}
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/** `String.fromCharCode` spreads its arguments on the stack, so batch well below engine limits. */
+const CHUNK_SIZE = 0x8000;
 
-export function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
+export function decode(base64: string): Uint8Array<ArrayBuffer> {
+  const clean = base64.replace(/\s+/g, '');
+  if (!BASE64_PATTERN.test(clean)) throw new PcmFormatError('Audio payload is not valid base64.');
+  const binaryString = atob(clean);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
@@ -10,41 +24,124 @@ export function decode(base64: string): Uint8Array {
 }
 
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    chunks.push(String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK_SIZE) as unknown as number[]));
+  }
+  return btoa(chunks.join(''));
+}
+
+/** Reads little-endian 16-bit samples, honouring the view's offset whatever the platform's byte order. */
+export function bytesToInt16(bytes: Uint8Array): Int16Array {
+  if (bytes.byteLength % 2 !== 0) {
+    throw new PcmFormatError(`16-bit PCM needs an even number of bytes; got ${bytes.byteLength}.`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Int16Array(bytes.byteLength / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+  return samples;
+}
+
+export function int16ToBytes(samples: Int16Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, samples[i], true);
+  }
+  return bytes;
+}
+
+/**
+ * Scales by 32768 to mirror `int16ToFloat32`, then clamps, so full-scale input
+ * maps to 32767 instead of wrapping to -32768 and samples round-trip exactly.
+ */
+export function float32ToInt16(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Number.isNaN(data[i]) ? 0 : Math.round(data[i] * 32768);
+    int16[i] = Math.max(-32768, Math.min(32767, sample));
   }
-  return btoa(binary);
+  return int16;
+}
+
+export function int16ToFloat32(samples: Int16Array): Float32Array {
+  const floats = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    floats[i] = samples[i] / 32768;
+  }
+  return floats;
 }
 
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const samples = bytesToInt16(data);
+  if (samples.length % numChannels !== 0) {
+    throw new PcmFormatError(`${samples.length} samples cannot be split evenly across ${numChannels} channels.`);
+  }
+  const frameCount = samples.length / numChannels;
+  if (frameCount === 0) throw new PcmFormatError('Audio payload is empty.');
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
     for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+      channelData[i] = samples[i * numChannels + channel] / 32768;
     }
   }
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function createPcmBlob(pcm: Int16Array, sampleRate: number): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(int16ToBytes(pcm)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+export function createBlob(data: Float32Array, sampleRate: number = 16000): { data: string; mimeType: string } {
+  return createPcmBlob(float32ToInt16(data), sampleRate);
+}
+
+/**
+ * Wraps 16-bit PCM in a RIFF/WAVE container. Channels must be the same
+ * length; they are interleaved in the order given.
+ */
+export function encodeWav(channels: Int16Array[], sampleRate: number): Uint8Array<ArrayBuffer> {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const dataSize = frames * numChannels * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      view.setInt16(offset, channels[c][i], true);
+      offset += 2;
+    }
+  }
+  return bytes;
+}
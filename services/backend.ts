@@ -0,0 +1,68 @@
+import { CaseBriefInput } from './caseBrief';
+
+/** Where the API backend is mounted; the dev server proxies `/api` to `npm run server`. */
+export const BACKEND_URL = process.env.BACKEND_URL || '/api';
+
+/** A refusal from the backend, with its machine-readable code (see `server/app.ts`). */
+export class BackendError extends Error {
+  constructor(message: string, readonly status: number, readonly code: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+/** True when retrying straight away would only be refused again. */
+export function isCapacityError(err: unknown): err is BackendError {
+  return err instanceof BackendError && err.status === 429;
+}
+
+async function request<T>(path: string, init: RequestInit): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new BackendError(body.message ?? `Backend request failed (${response.status}).`, response.status, body.error ?? 'unknown', body.retryAfterMs);
+  }
+  return response.status === 204 ? undefined : response.json();
+}
+
+export interface LiveSessionGrant {
+  /** Single-use ephemeral Gemini token for exactly one live connection. */
+  token: string;
+  sessionId: string;
+  /** Proves to the backend that this browser holds the session when it releases the slot. */
+  releaseKey: string;
+  expiresAt: number;
+}
+
+export function openLiveSession(): Promise<LiveSessionGrant> {
+  return request('/live-session', { method: 'POST' });
+}
+
+/** Frees the session slot; `keepalive` lets it go out while the page unloads. */
+export function releaseLiveSession({ sessionId, releaseKey }: LiveSessionGrant): Promise<void> {
+  return request<void>(`/live-session/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+    headers: { 'X-Release-Key': releaseKey },
+    keepalive: true,
+  })
+    .catch(err => console.warn('Could not release live session:', err));
+}
+
+export async function synthesizeSpeech(text: string, voiceName: string): Promise<string> {
+  const { audio } = await request<{ audio: string }>('/speech', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, voiceName }),
+  });
+  return audio;
+}
+
+/** Returns the model's brief as JSON; `parseCaseBrief` checks its shape. */
+export async function requestCaseBrief(input: CaseBriefInput): Promise<unknown> {
+  const { brief } = await request<{ brief: unknown }>('/case-brief', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return brief;
+}
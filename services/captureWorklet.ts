@@ -0,0 +1,98 @@
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+export const CAPTURE_SAMPLE_RATE = 16000;
+/** 100 ms of 16 kHz audio per frame sent to the model. */
+export const CAPTURE_FRAME_SIZE = 1600;
+
+export interface CaptureFrameMessage {
+  pcm: Int16Array;
+  sampleRate: number;
+}
+
+/**
+ * Runs inside the AudioWorkletGlobalScope, where `sampleRate` is the context's
+ * native rate. Downsampling averages the input samples that fall inside each
+ * output period, which doubles as a cheap anti-aliasing filter for speech;
+ * upsampling (rare, e.g. 8 kHz headsets) falls back to linear interpolation.
+ * Kept as a string so it loads from a Blob URL without extra bundler config.
+ */
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.targetRate = targetRate;
+    this.frame = new Int16Array(frameSize);
+    this.frameIndex = 0;
+    this.acc = 0;
+    this.accCount = 0;
+    this.position = 0;
+    this.last = 0;
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameIndex === this.frame.length) {
+      this.port.postMessage({ pcm: this.frame, sampleRate: this.targetRate }, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frame.length);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    if (this.ratio >= 1) {
+      for (let i = 0; i < channel.length; i++) {
+        this.acc += channel[i];
+        this.accCount++;
+        this.position += 1;
+        if (this.position >= this.ratio) {
+          this.position -= this.ratio;
+          this.push(this.acc / this.accCount);
+          this.acc = 0;
+          this.accCount = 0;
+        }
+      }
+    } else {
+      for (let i = 0; i < channel.length; i++) {
+        const current = channel[i];
+        while (this.position < 1) {
+          this.push(this.last + (current - this.last) * this.position);
+          this.position += this.ratio;
+        }
+        this.position -= 1;
+        this.last = current;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loaded = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export function loadCaptureWorklet(ctx: BaseAudioContext): Promise<void> {
+  let pending = loaded.get(ctx);
+  if (!pending) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    pending = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loaded.set(ctx, pending);
+  }
+  return pending;
+}
+
+export async function createCaptureNode(ctx: BaseAudioContext): Promise<AudioWorkletNode> {
+  await loadCaptureWorklet(ctx);
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSize: CAPTURE_FRAME_SIZE },
+  });
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ConsultationRecord, Transcription } from '../types';
+import {
+  CaseBriefError,
+  MAX_BRIEF_TRANSCRIPT_CHARS,
+  canDraftCaseBrief,
+  caseBriefInput,
+  caseBriefToMarkdown,
+  isCaseBriefStale,
+  parseCaseBrief,
+  parseCaseBriefInput,
+} from './caseBrief';
+
+const turn = (type: Transcription['type'], text: string, status?: Transcription['status']): Transcription =>
+  ({ type, text, timestamp: 0, status });
+
+const record = (transcriptions: Transcription[], extra: Partial<ConsultationRecord> = {}): ConsultationRecord => ({
+  id: 'c1',
+  startedAt: 0,
+  updatedAt: 0,
+  transcriptions,
+  crisisStage: { stage: 'During', reasoning: 'Live story' },
+  intake: { organization: 'Acme' },
+  ...extra,
+});
+
+describe('caseBriefInput', () => {
+  it('keeps spoken turns only', () => {
+    const input = caseBriefInput(record([
+      turn('user', 'We have a leak.'),
+      { ...turn('link', 'Show'), metadata: { url: 'https://thecrisisshow.com' } },
+      turn('model', 'Stop all statements.', 'interrupted'),
+      turn('user', 'Also', 'partial'),
+    ]), 'en');
+    expect(input.transcript).toEqual([
+      { speaker: 'client', text: 'We have a leak.' },
+      { speaker: 'agent', text: 'Stop all statements.' },
+    ]);
+    expect(input.crisisStage).toEqual({ stage: 'During', reasoning: 'Live story' });
+  });
+
+  it('drops the oldest turns once the transcript is too long', () => {
+    const long = 'x'.repeat(MAX_BRIEF_TRANSCRIPT_CHARS - 6);
+    const input = caseBriefInput(record([turn('user', 'first'), turn('user', long), turn('model', 'last')]), 'en');
+    expect(input.transcript.map(t => t.text)).toEqual([long, 'last']);
+  });
+});
+
+describe('parseCaseBriefInput', () => {
+  it('cleans the intake and accepts a valid body', () => {
+    const input = parseCaseBriefInput({
+      language: 'en',
+      crisisStage: null,
+      intake: { organization: ' Acme ', urgency: 'Apocalyptic' },
+      transcript: [{ speaker: 'client', text: 'Help' }],
+    });
+    expect(input.intake).toEqual({ organization: 'Acme' });
+  });
+
+  it.each([
+    [{ language: 'fr', transcript: [{ speaker: 'client', text: 'x' }] }],
+    [{ language: 'en', transcript: [{ speaker: 'client', text: 1 }] }],
+    [{ language: 'en', transcript: [{ speaker: 'client', text: 'x' }], crisisStage: { stage: 'Never', reasoning: '' } }],
+  ])('rejects %j', (body) => {
+    expect(() => parseCaseBriefInput(body)).toThrow(CaseBriefError);
+  });
+});
+
+describe('parseCaseBrief', () => {
+  it('fills missing lists and drops non-string items', () => {
+    expect(parseCaseBrief({ summary: ' Bad week. ', risks: ['Fines', 3, ' '], actions: { '24h': ['Call counsel'] } })).toEqual({
+      summary: 'Bad week.',
+      stakeholders: [],
+      risks: ['Fines'],
+      holdingLines: [],
+      actions: { '24h': ['Call counsel'], '48h': [], '72h': [] },
+    });
+  });
+
+  it('rejects a brief without a summary', () => {
+    expect(() => parseCaseBrief({ risks: [] })).toThrow(CaseBriefError);
+  });
+});
+
+describe('case brief helpers', () => {
+  const brief = {
+    summary: 'Bad week.',
+    stakeholders: ['Staff', ''],
+    risks: [],
+    holdingLines: ['We are looking into it.'],
+    actions: { '24h': ['Call counsel', 'Brief staff'], '48h': [], '72h': [] },
+    generatedAt: 0,
+    sourceEntries: 2,
+  };
+
+  it('needs a client turn and an agent reply before drafting', () => {
+    expect(canDraftCaseBrief(record([turn('user', 'Hi')]))).toBe(false);
+    expect(canDraftCaseBrief(record([turn('user', 'Hi'), turn('model', 'Hello')]))).toBe(true);
+  });
+
+  it('treats a brief as stale once the log has grown', () => {
+    const entries = [turn('user', 'Hi'), turn('model', 'Hello')];
+    expect(isCaseBriefStale(record(entries, { caseBrief: brief }))).toBe(false);
+    expect(isCaseBriefStale(record([...entries, turn('user', 'More')], { caseBrief: brief }))).toBe(true);
+  });
+
+  it('renders only the sections that have content', () => {
+    const markdown = caseBriefToMarkdown(brief, record([]), 'Rich Klein Crisis Management');
+    expect(markdown).toContain('## Stakeholders\n\n- Staff\n');
+    expect(markdown).not.toContain('## Key Risks');
+    expect(markdown).toContain('## Next 24h\n\n1. Call counsel\n2. Brief staff\n');
+    expect(markdown).not.toContain('## Next 48h');
+  });
+});
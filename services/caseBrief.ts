@@ -0,0 +1,183 @@
+import { Schema, Type } from '@google/genai';
+import { ActionWindow, CaseBrief, ConsultationRecord, CrisisIntake, CrisisStage, Language } from '../types';
+import { LANGUAGES } from '../i18n/strings';
+import { mergeIntake } from './intake';
+import { requestCaseBrief } from './backend';
+
+export const ACTION_WINDOWS: ActionWindow[] = ['24h', '48h', '72h'];
+
+/** Older turns are dropped past this, so a long consultation still fits one request. */
+export const MAX_BRIEF_TRANSCRIPT_CHARS = 60_000;
+
+/** What the backend drafts a brief from; only the spoken turns, never shared links or partial captions. */
+export interface CaseBriefInput {
+  language: Language;
+  crisisStage: CrisisStage | null;
+  intake: CrisisIntake;
+  transcript: { speaker: 'client' | 'agent'; text: string }[];
+}
+
+/** The model's part of a brief, before the client stamps it. */
+export type CaseBriefDraft = Omit<CaseBrief, 'generatedAt' | 'sourceEntries'>;
+
+export class CaseBriefError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaseBriefError';
+  }
+}
+
+/** A brief needs at least one exchange to say anything useful. */
+export function canDraftCaseBrief(record: ConsultationRecord): boolean {
+  const spoken = record.transcriptions.filter(t => t.status !== 'partial' && t.text.trim());
+  return spoken.some(t => t.type === 'user') && spoken.some(t => t.type === 'model');
+}
+
+/** A brief drafted before the consultation was resumed no longer covers all of it. */
+export function isCaseBriefStale(record: ConsultationRecord): boolean {
+  return !record.caseBrief || record.caseBrief.sourceEntries !== record.transcriptions.length;
+}
+
+export function caseBriefInput(record: ConsultationRecord, language: Language): CaseBriefInput {
+  const transcript: CaseBriefInput['transcript'] = [];
+  let size = 0;
+  for (let i = record.transcriptions.length - 1; i >= 0; i--) {
+    const entry = record.transcriptions[i];
+    const text = entry.text.trim();
+    if ((entry.type !== 'user' && entry.type !== 'model') || entry.status === 'partial' || !text) continue;
+    size += text.length;
+    if (size > MAX_BRIEF_TRANSCRIPT_CHARS) break;
+    transcript.unshift({ speaker: entry.type === 'user' ? 'client' : 'agent', text });
+  }
+  const { crisisStage } = record;
+  return {
+    language,
+    crisisStage: crisisStage && { stage: crisisStage.stage, reasoning: crisisStage.reasoning },
+    intake: record.intake,
+    transcript,
+  };
+}
+
+/** Validates a request body on the backend; anything it cannot use is rejected rather than passed to the model. */
+export function parseCaseBriefInput(body: Record<string, unknown>): CaseBriefInput {
+  const { language, crisisStage, intake, transcript } = body;
+  if (!(LANGUAGES as unknown[]).includes(language)) throw new CaseBriefError(`"language" must be one of ${LANGUAGES.join(', ')}.`);
+  if (!Array.isArray(transcript) || !transcript.length) throw new CaseBriefError('"transcript" must be a non-empty array.');
+
+  let size = 0;
+  const turns = transcript.map((turn, i) => {
+    if (!turn || (turn.speaker !== 'client' && turn.speaker !== 'agent') || typeof turn.text !== 'string') {
+      throw new CaseBriefError(`transcript[${i}] must be { speaker: "client" | "agent", text: string }.`);
+    }
+    size += turn.text.length;
+    return { speaker: turn.speaker as 'client' | 'agent', text: turn.text };
+  });
+  if (size > MAX_BRIEF_TRANSCRIPT_CHARS) throw new CaseBriefError(`"transcript" must be at most ${MAX_BRIEF_TRANSCRIPT_CHARS} characters.`);
+
+  let stage: CrisisStage | null = null;
+  if (crisisStage) {
+    const { stage: name, reasoning } = crisisStage as Record<string, unknown>;
+    if (!['Before', 'During', 'After'].includes(name as string) || typeof reasoning !== 'string') {
+      throw new CaseBriefError('"crisisStage" must be null or { stage, reasoning }.');
+    }
+    stage = { stage: name as CrisisStage['stage'], reasoning };
+  }
+
+  const cleanIntake = intake && typeof intake === 'object' ? mergeIntake({}, intake as Record<string, unknown>) : {};
+  return { language: language as Language, crisisStage: stage, intake: cleanIntake, transcript: turns };
+}
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+export const CASE_BRIEF_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Three to five sentences on what happened, where things stand and what is at stake.' },
+    stakeholders: stringList('Audiences affected or watching, each with a short note on their concern.'),
+    risks: stringList('The most serious reputational, legal and operational risks, most serious first.'),
+    holdingLines: stringList('Short statements the client can use verbatim before the full facts are known.'),
+    actions: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(ACTION_WINDOWS.map(window => [window, stringList(`Actions due within ${window}, most urgent first.`)])),
+      required: ACTION_WINDOWS,
+    },
+  },
+  required: ['summary', 'stakeholders', 'risks', 'holdingLines', 'actions'],
+};
+
+const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', it: 'Italian' };
+
+export function buildCaseBriefPrompt(input: CaseBriefInput): { systemInstruction: string; prompt: string } {
+  const systemInstruction = [
+    'You are a senior crisis communications adviser writing a case brief after a first consultation.',
+    'Work only from the consultation below; do not invent facts, names or figures. Where something is unknown, say what needs confirming instead.',
+    'Holding lines must be safe to say publicly: no admissions of liability, no speculation.',
+    'Actions are concrete and owned by the client, ordered by priority inside each window.',
+    `Write the brief in ${LANGUAGE_NAMES[input.language]}.`,
+  ].join('\n');
+
+  const intake = Object.entries(input.intake)
+    .map(([key, value]) => `- ${key}: ${Array.isArray(value) ? value.join(', ') : value}`)
+    .join('\n');
+  const prompt = [
+    `Crisis stage: ${input.crisisStage ? `${input.crisisStage.stage} (${input.crisisStage.reasoning})` : 'not determined'}`,
+    `Intake:\n${intake || '- nothing recorded'}`,
+    'Consultation transcript:',
+    ...input.transcript.map(turn => `${turn.speaker === 'client' ? 'CLIENT' : 'ADVISER'}: ${turn.text}`),
+  ].join('\n\n');
+
+  return { systemInstruction, prompt };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim()) : [];
+
+/** Checks the model's JSON against the brief's shape; the schema is a request, not a guarantee. */
+export function parseCaseBrief(value: unknown): CaseBriefDraft {
+  const raw = isObject(value) ? value : {};
+  const { summary } = raw;
+  if (typeof summary !== 'string' || !summary.trim()) throw new CaseBriefError('The drafted brief has no summary.');
+  const byWindow = isObject(raw.actions) ? raw.actions : {};
+  const actions = Object.fromEntries(ACTION_WINDOWS.map(window => [window, cleanList(byWindow[window])])) as CaseBriefDraft['actions'];
+  return {
+    summary: summary.trim(),
+    stakeholders: cleanList(raw.stakeholders),
+    risks: cleanList(raw.risks),
+    holdingLines: cleanList(raw.holdingLines),
+    actions,
+  };
+}
+
+/** Drafts a brief for `record` through the API backend. */
+export async function draftCaseBrief(record: ConsultationRecord, language: Language): Promise<CaseBrief> {
+  const draft = parseCaseBrief(await requestCaseBrief(caseBriefInput(record, language)));
+  return { ...draft, generatedAt: Date.now(), sourceEntries: record.transcriptions.length };
+}
+
+/** Lines left blank while editing are dropped from anything copied or exported. */
+const items = (list: string[]) => list.map(item => item.trim()).filter(Boolean);
+
+export function caseBriefToMarkdown(brief: CaseBrief, record: ConsultationRecord, firmName: string): string {
+  const section = (title: string, list: string[], ordered = false) => {
+    const entries = items(list);
+    return entries.length ? ['', `## ${title}`, '', ...entries.map((item, i) => `${ordered ? `${i + 1}.` : '-'} ${item}`)] : [];
+  };
+  return [
+    `# ${firmName} — Case Brief`,
+    '',
+    `- **Consultation:** ${new Date(record.startedAt).toLocaleString()}`,
+    `- **Crisis Stage:** ${record.crisisStage?.stage ?? 'Not Determined'}`,
+    ...(record.intake.organization ? [`- **Organization:** ${record.intake.organization}`] : []),
+    '',
+    '## Situation',
+    '',
+    brief.summary.trim(),
+    ...section('Stakeholders', brief.stakeholders),
+    ...section('Key Risks', brief.risks),
+    ...section('Holding Lines', brief.holdingLines),
+    ...ACTION_WINDOWS.flatMap(window => section(`Next ${window}`, brief.actions[window], true)),
+  ].join('\n') + '\n';
+}
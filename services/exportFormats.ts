@@ -0,0 +1,240 @@
+import { AgentProfile, ConsultationRecord, CrisisIntake, ScheduledCallback, Transcription } from '../types';
+import { stageHistoryOf } from './stageHistory';
+import { MessageKey } from '../i18n';
+
+export type ExportFormat = 'txt' | 'md' | 'json' | 'html';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: MessageKey; mimeType: string }[] = [
+  { format: 'md', label: 'export.md', mimeType: 'text/markdown' },
+  { format: 'json', label: 'export.json', mimeType: 'application/json' },
+  { format: 'html', label: 'export.html', mimeType: 'text/html' },
+  { format: 'txt', label: 'export.txt', mimeType: 'text/plain' },
+];
+
+export const CONSULTATION_SCHEMA = 'rich-klein.consultation';
+export const CONSULTATION_SCHEMA_VERSION = 1;
+
+/**
+ * The stable JSON export. Bump `CONSULTATION_SCHEMA_VERSION` on any breaking
+ * change; downstream tooling at clients' legal and comms teams parses this.
+ */
+export interface ConsultationExport {
+  schema: typeof CONSULTATION_SCHEMA;
+  version: typeof CONSULTATION_SCHEMA_VERSION;
+  id: string;
+  startedAt: string;
+  exportedAt: string;
+  crisisStage: { stage: string; reasoning: string } | null;
+  stageHistory: { stage: string; reasoning: string; at: string }[];
+  intake: CrisisIntake;
+  entries: {
+    type: Transcription['type'];
+    text: string;
+    status?: Transcription['status'];
+    timestamp: string;
+    url?: string;
+    title?: string;
+    callback?: ScheduledCallback;
+  }[];
+}
+
+const INTAKE_LABELS: [keyof CrisisIntake, string][] = [
+  ['organization', 'Organization'],
+  ['industry', 'Industry'],
+  ['location', 'Location'],
+  ['timezone', 'Timezone'],
+  ['stakeholders', 'Stakeholders'],
+  ['mediaExposure', 'Media Exposure'],
+  ['urgency', 'Urgency'],
+  ['preferredContact', 'Preferred Contact'],
+];
+
+const iso = (ms: number) => new Date(ms).toISOString();
+const time = (ms: number) => new Date(ms).toLocaleTimeString();
+
+const intakeRows = (intake: CrisisIntake): [string, string][] =>
+  INTAKE_LABELS.flatMap(([key, label]) => {
+    const value = intake[key];
+    const text = Array.isArray(value) ? value.join(', ') : value;
+    return text ? [[label, text]] : [];
+  });
+
+/** Flags turns that were cut off, so a reader knows the sentence is incomplete. */
+const turnText = (t: Transcription) => (t.status === 'interrupted' ? `${t.text} [interrupted]` : t.text);
+
+const SPEAKERS: Record<Transcription['type'], string> = { user: 'Client', model: 'Agent', link: 'Shared Link', callback: 'Callback' };
+
+const speaker = (t: Transcription) => SPEAKERS[t.type];
+
+/** The requested time in UTC, which reads the same for the client and the consultant. */
+const callbackText = (t: Transcription) => {
+  const callback = t.metadata?.callback;
+  return callback ? `${t.text} (${callback.start.slice(0, 16).replace('T', ' ')} UTC, ${callback.timeZone})` : t.text;
+};
+
+export function toJson(record: ConsultationRecord): string {
+  const payload: ConsultationExport = {
+    schema: CONSULTATION_SCHEMA,
+    version: CONSULTATION_SCHEMA_VERSION,
+    id: record.id,
+    startedAt: iso(record.startedAt),
+    exportedAt: new Date().toISOString(),
+    crisisStage: record.crisisStage,
+    stageHistory: stageHistoryOf(record).map(change => ({ stage: change.stage, reasoning: change.reasoning, at: iso(change.at) })),
+    intake: record.intake,
+    entries: record.transcriptions.map(t => ({
+      type: t.type,
+      text: t.text,
+      ...(t.status ? { status: t.status } : {}),
+      timestamp: iso(t.timestamp),
+      ...(t.type === 'link' ? { url: t.metadata?.url, title: t.metadata?.title } : {}),
+      ...(t.type === 'callback' ? { callback: t.metadata?.callback } : {}),
+    })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+export function toPlainText(record: ConsultationRecord, firmName: string): string {
+  const { crisisStage } = record;
+  const timeline = stageHistoryOf(record).map(change => `  ${new Date(change.at).toLocaleString()} - ${change.stage}: ${change.reasoning}`).join('\n');
+  const header = `${firmName.toUpperCase()} - SESSION LOG\nCrisis Stage: ${crisisStage?.stage || 'Not Determined'}\nReasoning: ${crisisStage?.reasoning || 'N/A'}\n${timeline ? `Stage Timeline:\n${timeline}\n` : ''}Generated on: ${new Date().toLocaleString()}\n------------------------------------------------\n\n`;
+  const content = record.transcriptions.map(t => {
+    const content = t.type === 'link' ? `SHARED LINK: ${t.metadata?.title} - ${t.metadata?.url}` : t.type === 'callback' ? callbackText(t) : turnText(t);
+    return `[${time(t.timestamp)}] ${t.type.toUpperCase()}: ${content}`;
+  }).join('\n\n');
+  return header + content;
+}
+
+const mdEscape = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+export function toMarkdown(record: ConsultationRecord, firmName: string): string {
+  const lines = [
+    `# ${firmName} — Consultation Log`,
+    '',
+    `- **Started:** ${new Date(record.startedAt).toLocaleString()}`,
+    `- **Crisis Stage:** ${record.crisisStage?.stage ?? 'Not Determined'}`,
+  ];
+  if (record.crisisStage) lines.push(`- **Reasoning:** ${mdEscape(record.crisisStage.reasoning)}`);
+
+  const stages = stageHistoryOf(record);
+  if (stages.length) {
+    lines.push('', '## Stage Timeline', '', ...stages.map(change => `- \`${new Date(change.at).toLocaleString()}\` **${change.stage}:** ${mdEscape(change.reasoning)}`));
+  }
+
+  const intake = intakeRows(record.intake);
+  if (intake.length) {
+    lines.push('', '## Intake', '', ...intake.map(([label, value]) => `- **${label}:** ${mdEscape(value)}`));
+  }
+
+  lines.push('', '## Transcript', '');
+  for (const t of record.transcriptions) {
+    if (t.type === 'link') {
+      lines.push(`- \`${time(t.timestamp)}\` **Shared Link:** [${mdEscape(t.metadata?.title ?? 'Resource')}](<${t.metadata?.url ?? ''}>)`);
+    } else if (t.type === 'callback') {
+      lines.push(`- \`${time(t.timestamp)}\` **Callback:** ${mdEscape(callbackText(t))}`);
+    } else {
+      lines.push(`- \`${time(t.timestamp)}\` **${speaker(t)}:** ${mdEscape(turnText(t))}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+const htmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/** A self-contained case brief meant to be opened in a browser and printed. */
+export function toHtmlReport(record: ConsultationRecord, firmName: string): string {
+  const { crisisStage } = record;
+  const intake = intakeRows(record.intake);
+  const timeline = [
+    { at: record.startedAt, label: 'Consultation started' },
+    ...stageHistoryOf(record).map(change => ({ at: change.at, label: `${change.stage} crisis: ${change.reasoning}` })),
+    ...(record.transcriptions.length ? [{ at: record.transcriptions[record.transcriptions.length - 1].timestamp, label: 'Last activity' }] : []),
+  ];
+
+  const entries = record.transcriptions.map(t => {
+    const url = t.metadata?.url ?? '';
+    const body = t.type === 'callback'
+      ? htmlEscape(callbackText(t))
+      : t.type !== 'link'
+        ? htmlEscape(turnText(t))
+        : /^https:\/\//i.test(url)
+          ? `<a href="${htmlEscape(url)}">${htmlEscape(t.metadata?.title ?? 'Resource')}</a>`
+          : `${htmlEscape(t.metadata?.title ?? 'Resource')} (${htmlEscape(url)})`;
+    return `<tr class="${t.type}"><td class="time">${time(t.timestamp)}</td><td class="who">${speaker(t)}</td><td>${body}</td></tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Case Brief — ${new Date(record.startedAt).toLocaleDateString()}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #0f172a; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; border-bottom: 3px solid #1d4ed8; padding-bottom: .5rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; color: #1d4ed8; text-transform: uppercase; letter-spacing: .08em; }
+  .stage { display: inline-block; padding: .1rem .6rem; border-radius: 4px; font-weight: bold; background: #e2e8f0; }
+  .stage.During { background: #fee2e2; color: #b91c1c; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+  dt { font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; font-size: .9rem; }
+  td { border-bottom: 1px solid #e2e8f0; padding: .4rem; vertical-align: top; }
+  td.time { white-space: nowrap; color: #64748b; }
+  td.who { white-space: nowrap; font-weight: bold; }
+  tr.user td.who { color: #1d4ed8; }
+  footer { margin-top: 3rem; font-size: .75rem; color: #64748b; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } a::after { content: " (" attr(href) ")"; font-size: .8em; } }
+</style>
+</head>
+<body>
+<h1>${htmlEscape(firmName)} — Case Brief</h1>
+<p><span class="stage ${crisisStage?.stage ?? ''}">${crisisStage ? `${crisisStage.stage} Crisis` : 'Stage Not Determined'}</span></p>
+${crisisStage ? `<p><em>${htmlEscape(crisisStage.reasoning)}</em></p>` : ''}
+${intake.length ? `<h2>Intake</h2>\n<dl>${intake.map(([label, value]) => `<dt>${label}</dt><dd>${htmlEscape(value)}</dd>`).join('')}</dl>` : ''}
+<h2>Timeline</h2>
+<ul>${timeline.map(item => `<li><strong>${new Date(item.at).toLocaleString()}</strong> — ${htmlEscape(item.label)}</li>`).join('')}</ul>
+<h2>Consultation Log</h2>
+<table>
+${entries}
+</table>
+<footer>Generated on ${new Date().toLocaleString()}. Confidential — prepared for the client and their advisers.</footer>
+</body>
+</html>
+`;
+}
+
+const RENDERERS: Record<ExportFormat, (record: ConsultationRecord, firmName: string) => string> = {
+  txt: toPlainText,
+  md: toMarkdown,
+  json: toJson,
+  html: toHtmlReport,
+};
+
+export function renderExport(record: ConsultationRecord, format: ExportFormat, firmName: string): string {
+  return RENDERERS[format](record, firmName);
+}
+
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** Pass the already-redacted record with `redacted` set, so the file name says which copy it is. */
+export function exportConsultation(record: ConsultationRecord, format: ExportFormat, profile: AgentProfile, redacted = false) {
+  const { mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+  const date = new Date(record.startedAt).toISOString().slice(0, 10);
+  const name = `${profile.id}-crisis-log-${date}${redacted ? '-redacted' : ''}.${format}`;
+  downloadFile(renderExport(record, format, profile.branding.firmName), name, mimeType);
+}
+
+export function exportRecording(record: ConsultationRecord, wav: Uint8Array<ArrayBuffer>, profile: AgentProfile) {
+  const date = new Date(record.startedAt).toISOString().slice(0, 10);
+  downloadFile(wav, `${profile.id}-crisis-recording-${date}.wav`, 'audio/wav');
+}
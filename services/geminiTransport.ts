@@ -0,0 +1,49 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTransport } from './liveTransport';
+import { openLiveSession, releaseLiveSession } from './backend';
+
+/**
+ * Connects to Gemini with a single-use token from the API backend, so the API
+ * key never reaches the browser. Each connection, reconnects included, asks
+ * for a fresh token and gives its session slot back when it closes.
+ */
+export function createGeminiTransport(): LiveTransport {
+  return {
+    connect: async (params) => {
+      const grant = await openLiveSession();
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        releaseLiveSession(grant);
+      };
+
+      // Ephemeral tokens are only accepted on v1alpha.
+      const ai = new GoogleGenAI({ apiKey: grant.token, httpOptions: { apiVersion: 'v1alpha' } });
+      try {
+        const session = await ai.live.connect({
+          ...params,
+          callbacks: {
+            ...params.callbacks,
+            onclose: (event) => {
+              release();
+              params.callbacks.onclose?.(event);
+            },
+          },
+        });
+        return {
+          sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+          sendClientContent: (content) => session.sendClientContent(content),
+          sendToolResponse: (response) => session.sendToolResponse(response),
+          close: () => {
+            session.close();
+            release();
+          },
+        };
+      } catch (err) {
+        release();
+        throw err;
+      }
+    },
+  };
+}
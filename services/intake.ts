@@ -0,0 +1,52 @@
+import { CrisisIntake } from '../types';
+
+export const MEDIA_EXPOSURE_LEVELS = ['None', 'Local', 'National', 'International', 'Social Media'] as const;
+export const URGENCY_LEVELS = ['Low', 'Medium', 'High', 'Critical'] as const;
+export const CONTACT_METHODS = ['WhatsApp', 'Phone', 'Email', 'Video Call'] as const;
+
+const TEXT_FIELDS = ['organization', 'industry', 'location', 'timezone'] as const;
+
+/**
+ * Merges a partial intake reported by the model into what is already known.
+ * Empty or out-of-range values are dropped so a later call can never blank a
+ * field; stakeholders accumulate rather than being replaced.
+ */
+export function mergeIntake(current: CrisisIntake, update: Record<string, unknown>): CrisisIntake {
+  const next: CrisisIntake = { ...current };
+
+  for (const field of TEXT_FIELDS) {
+    const value = update[field];
+    if (typeof value === 'string' && value.trim()) next[field] = value.trim();
+  }
+
+  if (Array.isArray(update.stakeholders)) {
+    const added = update.stakeholders.filter((s): s is string => typeof s === 'string' && !!s.trim()).map(s => s.trim());
+    const seen = new Set((current.stakeholders ?? []).map(s => s.toLowerCase()));
+    next.stakeholders = [...(current.stakeholders ?? []), ...added.filter(s => !seen.has(s.toLowerCase()))];
+  }
+
+  if ((MEDIA_EXPOSURE_LEVELS as readonly unknown[]).includes(update.mediaExposure)) {
+    next.mediaExposure = update.mediaExposure as CrisisIntake['mediaExposure'];
+  }
+  if ((URGENCY_LEVELS as readonly unknown[]).includes(update.urgency)) {
+    next.urgency = update.urgency as CrisisIntake['urgency'];
+  }
+  if ((CONTACT_METHODS as readonly unknown[]).includes(update.preferredContact)) {
+    next.preferredContact = update.preferredContact as CrisisIntake['preferredContact'];
+  }
+
+  return next;
+}
+
+/** Intake fields still unknown, so the model can be nudged to ask for them. */
+export function missingIntakeFields(intake: CrisisIntake): string[] {
+  const fields: (keyof CrisisIntake)[] = [...TEXT_FIELDS, 'stakeholders', 'mediaExposure', 'urgency', 'preferredContact'];
+  return fields.filter(f => {
+    const value = intake[f];
+    return Array.isArray(value) ? value.length === 0 : !value;
+  });
+}
+
+export function isIntakeEmpty(intake: CrisisIntake): boolean {
+  return Object.keys(intake).length === 0;
+}
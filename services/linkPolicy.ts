@@ -0,0 +1,63 @@
+import { LinkResource } from '../types';
+
+export interface LinkPolicy {
+  allowedDomains: string[];
+  resources: LinkResource[];
+}
+
+export type LinkCheck =
+  | { ok: true; url: string; hostname: string; resource?: LinkResource }
+  | { ok: false; reason: string };
+
+const normalizeHost = (host: string) => host.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+
+/** Catalogue matching ignores the query string, which is usually tracking or tab state. */
+const canonical = (url: URL) => `${normalizeHost(url.hostname)}${url.pathname.replace(/\/+$/, '')}`;
+
+export function isAllowedHost(hostname: string, allowedDomains: string[]): boolean {
+  const host = normalizeHost(hostname);
+  return allowedDomains.some(domain => {
+    const allowed = normalizeHost(domain);
+    return host === allowed || host.endsWith(`.${allowed}`);
+  });
+}
+
+/**
+ * Decides whether a URL from the model may be shown as a clickable link.
+ * Only https links on an allowed domain pass; credentials, IP hosts and
+ * punycode lookalikes are refused outright. The reason is phrased for the
+ * model, which receives it in the tool response.
+ */
+export function checkSharedLink(raw: string, policy: LinkPolicy): LinkCheck {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { ok: false, reason: 'The URL is not a complete, absolute address.' };
+  }
+  if (url.protocol !== 'https:') {
+    return { ok: false, reason: `Only https links can be shared; "${url.protocol}" links are blocked.` };
+  }
+  if (url.username || url.password) {
+    return { ok: false, reason: 'Links containing credentials are blocked.' };
+  }
+  if (/^[\d.]+$/.test(url.hostname) || url.hostname.startsWith('[')) {
+    return { ok: false, reason: 'Links to raw IP addresses are blocked.' };
+  }
+  if (url.hostname.split('.').some(label => label.startsWith('xn--')) && !isAllowedHost(url.hostname, policy.allowedDomains)) {
+    return { ok: false, reason: 'Internationalized lookalike domains are blocked.' };
+  }
+  if (!isAllowedHost(url.hostname, policy.allowedDomains)) {
+    return { ok: false, reason: `${url.hostname} is not on the list of approved domains.` };
+  }
+  return { ok: true, url: url.href, hostname: normalizeHost(url.hostname), resource: findResource(url.href, policy.resources) };
+}
+
+export function findResource(raw: string, resources: LinkResource[]): LinkResource | undefined {
+  try {
+    const key = canonical(new URL(raw));
+    return resources.find(resource => canonical(new URL(resource.url)) === key);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  LiveConnectConfig,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  Modality,
+} from '@google/genai';
+
+/** The live model every consultation runs on; the backend only mints tokens for it. */
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/**
+ * The session settings that are the same for every consultation, which the
+ * backend locks its tokens to. Voice, tools and the system instruction depend
+ * on the profile and the caller's choices, so the browser sets those.
+ */
+export const LIVE_FIXED_CONFIG: LiveConnectConfig = {
+  responseModalities: [Modality.AUDIO],
+  inputAudioTranscription: {},
+  outputAudioTranscription: {},
+};
+
+/**
+ * The subset of a live session the agent talks to. The Gemini SDK `Session`
+ * satisfies this structurally, so adapters can return it as-is.
+ */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens live sessions. `VoiceAgent` only depends on this interface, which lets
+ * the Gemini endpoint be swapped for the offline mock server.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
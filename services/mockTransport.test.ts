@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { MockTurn, createMockTransport, mockInputText, mockOutputText, mockToolCall, mockTurnComplete } from './mockTransport';
+
+const SCRIPT: MockTurn[] = [
+  { trigger: 'open', messages: [mockOutputText('Welcome.'), mockTurnComplete()] },
+  { trigger: 'input', messages: [mockInputText('A reporter called.'), mockToolCall('set_crisis_stage', { stage: 'During', reasoning: 'Live story' })] },
+  { trigger: 'toolResponse', messages: [mockOutputText('Stage noted.'), mockTurnComplete()], delayMs: 50 },
+];
+
+describe('createMockTransport', () => {
+  let received: LiveServerMessage[];
+  let callbacks: { onopen: () => void; onmessage: (message: LiveServerMessage) => void; onclose: (event: CloseEvent) => void };
+
+  const connect = async (options: Parameters<typeof createMockTransport>[1] = {}) => {
+    const pending = createMockTransport(SCRIPT, { connectDelayMs: 100, ...options }).connect({ model: 'mock', callbacks });
+    await vi.advanceTimersByTimeAsync(100);
+    return pending;
+  };
+  const text = (message: LiveServerMessage) =>
+    message.serverContent?.outputTranscription?.text ?? message.serverContent?.inputTranscription?.text ?? message.toolCall?.functionCalls[0].name;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Browsers have CloseEvent; Node 20 does not.
+    vi.stubGlobal('CloseEvent', class extends Event {
+      code: number;
+      reason: string;
+      constructor(type: string, init: { code?: number; reason?: string } = {}) {
+        super(type);
+        this.code = init.code ?? 0;
+        this.reason = init.reason ?? '';
+      }
+    });
+    received = [];
+    callbacks = { onopen: vi.fn(), onmessage: message => received.push(message), onclose: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('opens after the connect delay and plays the opening turn', async () => {
+    await connect();
+    expect(callbacks.onopen).toHaveBeenCalledTimes(1);
+    expect(received).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(received.map(text)).toEqual(['Welcome.', undefined]);
+    expect(received[1].serverContent?.turnComplete).toBe(true);
+  });
+
+  it('waits for input, then for the tool response, before each scripted turn', async () => {
+    const sent: string[] = [];
+    const session = await connect({ framesPerInput: 2, onClientMessage: kind => sent.push(kind) });
+    await vi.advanceTimersByTimeAsync(300);
+
+    session.sendToolResponse({ functionResponses: [] });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(received).toHaveLength(2);
+
+    const frame = { media: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } };
+    session.sendRealtimeInput(frame);
+    session.sendRealtimeInput(frame);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(received.slice(2).map(text)).toEqual(['A reporter called.', 'set_crisis_stage']);
+
+    session.sendToolResponse({ functionResponses: [{ id: 'x', name: 'set_crisis_stage', response: { result: 'ok' } }] });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(received.slice(4).map(text)).toEqual(['Stage noted.', undefined]);
+    expect(sent).toEqual(['toolResponse', 'realtimeInput', 'realtimeInput', 'toolResponse']);
+  });
+
+  it('stops mid-turn on close and reports it once', async () => {
+    const session = await connect();
+    await vi.advanceTimersByTimeAsync(150);
+    expect(received).toHaveLength(1);
+
+    session.close();
+    session.close();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(received).toHaveLength(1);
+    expect(callbacks.onclose).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(callbacks.onclose).mock.calls[0][0]).toMatchObject({ type: 'close', code: 1000 });
+  });
+});
@@ -0,0 +1,189 @@
+import { LiveServerMessage, LiveConnectParameters } from '@google/genai';
+import { LiveSession, LiveTransport } from './liveTransport';
+import { encode } from './audioUtils';
+
+/**
+ * A scripted turn the mock server replays. `open` turns play as soon as the
+ * session opens, `input` turns wait for the user to say or type something and
+ * `toolResponse` turns wait for the client to answer the pending tool call.
+ */
+export interface MockTurn {
+  trigger: 'open' | 'input' | 'toolResponse';
+  messages: LiveServerMessage[];
+  /** Pause between consecutive messages, in milliseconds. */
+  delayMs?: number;
+}
+
+export interface MockTransportOptions {
+  /** Delay before `onopen` fires, in milliseconds. */
+  connectDelayMs?: number;
+  /** Realtime audio frames that count as one spoken user turn. */
+  framesPerInput?: number;
+  /** Called with every message the client sends, for assertions and debugging. */
+  onClientMessage?: (kind: 'realtimeInput' | 'clientContent' | 'toolResponse', payload: unknown) => void;
+}
+
+const message = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+/** A mono 24 kHz PCM tone, long enough to exercise playback scheduling. */
+export function mockAudio(durationMs = 400, frequency = 220): LiveServerMessage {
+  const sampleRate = 24000;
+  const samples = Math.floor((sampleRate * durationMs) / 1000);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 480, (samples - i) / 480);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2 * fade * 32767);
+  }
+  return message({
+    serverContent: {
+      modelTurn: { parts: [{ inlineData: { data: encode(new Uint8Array(pcm.buffer)), mimeType: 'audio/pcm;rate=24000' } }] },
+    },
+  });
+}
+
+export const mockOutputText = (text: string) => message({ serverContent: { outputTranscription: { text } } });
+export const mockInputText = (text: string) => message({ serverContent: { inputTranscription: { text } } });
+export const mockTurnComplete = () => message({ serverContent: { turnComplete: true } });
+export const mockInterrupted = () => message({ serverContent: { interrupted: true } });
+
+let mockCallId = 0;
+export const mockToolCall = (name: string, args: Record<string, unknown>) =>
+  message({ toolCall: { functionCalls: [{ id: `mock-call-${++mockCallId}`, name, args }] } });
+
+export const DEFAULT_MOCK_SCRIPT: MockTurn[] = [
+  {
+    trigger: 'open',
+    messages: [
+      mockAudio(),
+      mockOutputText('Welcome to Rich Klein Crisis Management. '),
+      mockAudio(),
+      mockOutputText('Wherever you are in the world at whatever time, we are here to help. Please describe your crisis or the kind of services you and your organization may need.'),
+      mockTurnComplete(),
+    ],
+  },
+  {
+    trigger: 'input',
+    messages: [
+      mockInputText('A reporter just called about a data breach at Northwind Health in Boston and the story runs tonight.'),
+      mockToolCall('set_crisis_stage', {
+        stage: 'During',
+        reasoning: 'A media story about an active breach is about to break.',
+      }),
+      mockToolCall('record_crisis_intake', {
+        organization: 'Northwind Health',
+        industry: 'Healthcare',
+        location: 'Boston, MA',
+        timezone: 'America/New_York',
+        stakeholders: ['patients', 'employees'],
+        mediaExposure: 'National',
+        urgency: 'Critical',
+      }),
+    ],
+  },
+  {
+    trigger: 'toolResponse',
+    messages: [
+      mockAudio(),
+      mockOutputText('This is an active crisis, so containment comes first. '),
+      mockAudio(),
+      mockOutputText('Please use the 24/7 Urgent Support WhatsApp button to reach Rich directly. '),
+      mockInterrupted(),
+      mockTurnComplete(),
+    ],
+  },
+  {
+    trigger: 'input',
+    messages: [
+      mockInputText('Is there anything I can watch while I wait?'),
+      mockToolCall('share_link', { title: 'The Crisis Show', url: 'https://thecrisisshow.com/' }),
+    ],
+  },
+  {
+    trigger: 'toolResponse',
+    messages: [
+      mockAudio(),
+      mockOutputText('I have shared The Crisis Show in your consultation log.'),
+      mockTurnComplete(),
+    ],
+  },
+];
+
+/**
+ * An offline stand-in for the Gemini live endpoint that replays a script of
+ * `LiveServerMessage`s, so the consultation UI and tool handling can be run
+ * end to end without network access.
+ */
+export function createMockTransport(script: MockTurn[] = DEFAULT_MOCK_SCRIPT, options: MockTransportOptions = {}): LiveTransport {
+  const { connectDelayMs = 300, framesPerInput = 12, onClientMessage } = options;
+
+  return {
+    connect: async ({ callbacks }: LiveConnectParameters): Promise<LiveSession> => {
+      let cursor = 0;
+      let playing = false;
+      let closed = false;
+      let framesHeard = 0;
+      const timers = new Set<ReturnType<typeof setTimeout>>();
+
+      const wait = (ms: number) => new Promise<void>(resolve => {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          resolve();
+        }, ms);
+        timers.add(timer);
+      });
+
+      const fire = async (trigger: MockTurn['trigger']) => {
+        const turn = script[cursor];
+        if (closed || playing || !turn || turn.trigger !== trigger) return;
+        playing = true;
+        cursor++;
+        for (const msg of turn.messages) {
+          await wait(turn.delayMs ?? 150);
+          if (closed) return;
+          callbacks.onmessage(msg);
+        }
+        playing = false;
+        framesHeard = 0;
+      };
+
+      const session: LiveSession = {
+        sendRealtimeInput: (params) => {
+          onClientMessage?.('realtimeInput', params);
+          if (params.text) {
+            fire('input');
+          } else if (params.audioStreamEnd) {
+            // The client's VAD closed the stream: treat whatever was heard as a finished utterance.
+            if (framesHeard > 0) {
+              framesHeard = 0;
+              fire('input');
+            }
+          } else if (params.media && ++framesHeard >= framesPerInput) {
+            framesHeard = 0;
+            fire('input');
+          }
+        },
+        sendClientContent: (params) => {
+          onClientMessage?.('clientContent', params);
+          if (params.turnComplete !== false) fire('input');
+        },
+        sendToolResponse: (params) => {
+          onClientMessage?.('toolResponse', params);
+          fire('toolResponse');
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          timers.forEach(clearTimeout);
+          timers.clear();
+          callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Mock session closed' }));
+        },
+      };
+
+      await wait(connectDelayMs);
+      callbacks.onopen?.();
+      fire('open');
+      return session;
+    },
+  };
+}
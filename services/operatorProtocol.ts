@@ -0,0 +1,170 @@
+import { CrisisIntake, CrisisStage, CrisisStageName, Language, Transcription, TurnStatus } from '../types';
+import { LANGUAGES } from '../i18n/strings';
+import { mergeIntake } from './intake';
+import { isValidTimeZone } from './scheduling';
+
+/** Operator guidance is a steer for the agent, not a script. */
+export const MAX_GUIDANCE_CHARS = 1000;
+
+/** Only the tail of a long consultation is mirrored; the operator needs where things stand now. */
+export const MAX_MIRRORED_ENTRIES = 200;
+
+/** What a live consultation shares with the operator relay. */
+export interface SessionMirror {
+  /** The consultation's id, so a resumed consultation shows up as the same session. */
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  language: Language;
+  status: 'idle' | 'connecting' | 'reconnecting' | 'listening' | 'speaking';
+  mode: 'voice' | 'text';
+  crisisStage: CrisisStage | null;
+  intake: CrisisIntake;
+  transcriptions: Transcription[];
+}
+
+export interface OperatorGuidance {
+  text: string;
+  at: number;
+}
+
+/** A session as the operator sees it: the mirror plus what operators have done to it. */
+export interface MonitoredSession {
+  mirror: SessionMirror;
+  guidance: OperatorGuidance[];
+  callbackFlagged: boolean;
+}
+
+export type SessionToRelay = { type: 'mirror'; session: SessionMirror };
+
+export type RelayToSession =
+  | { type: 'guidance'; text: string }
+  | { type: 'callbackFlag'; flagged: boolean };
+
+export type OperatorToRelay =
+  | { type: 'guidance'; sessionId: string; text: string }
+  | { type: 'callbackFlag'; sessionId: string; flagged: boolean };
+
+export type RelayToOperator =
+  | { type: 'sessions'; sessions: MonitoredSession[] }
+  | { type: 'session'; session: MonitoredSession }
+  | { type: 'ended'; sessionId: string }
+  | { type: 'error'; message: string };
+
+export class OperatorProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperatorProtocolError';
+  }
+}
+
+const STATUSES: SessionMirror['status'][] = ['idle', 'connecting', 'reconnecting', 'listening', 'speaking'];
+const ENTRY_TYPES: Transcription['type'][] = ['user', 'model', 'link', 'callback'];
+const TURN_STATUSES: TurnStatus[] = ['partial', 'final', 'interrupted'];
+const STAGES: CrisisStageName[] = ['Before', 'During', 'After'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const parseJson = (raw: string): Record<string, unknown> => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new OperatorProtocolError('Messages must be JSON.');
+  }
+  if (!isObject(message)) throw new OperatorProtocolError('Messages must be JSON objects.');
+  return message;
+};
+
+const isTime = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+const isZone = (value: unknown): value is string => typeof value === 'string' && isValidTimeZone(value);
+
+/** Keeps only metadata the transcript cards can render safely. */
+function cleanMetadata(metadata: unknown): Transcription['metadata'] {
+  if (!isObject(metadata)) return undefined;
+  const clean: NonNullable<Transcription['metadata']> = {};
+  if (typeof metadata.url === 'string') clean.url = metadata.url;
+  if (typeof metadata.title === 'string') clean.title = metadata.title;
+  const callback = metadata.callback;
+  if (isObject(callback)) {
+    const { start, end, timeZone, windowLabel, windowTimeZone } = callback;
+    if (isTime(start) && isTime(end) && isZone(timeZone) && isZone(windowTimeZone) && typeof windowLabel === 'string') {
+      clean.callback = { start, end, timeZone, windowLabel, windowTimeZone };
+    }
+  }
+  return clean;
+}
+
+function parseEntry(entry: unknown, i: number): Transcription {
+  if (!isObject(entry) || typeof entry.text !== 'string' || !isOneOf(ENTRY_TYPES, entry.type) || typeof entry.timestamp !== 'number') {
+    throw new OperatorProtocolError(`"session.transcriptions[${i}]" is not a transcript entry.`);
+  }
+  return {
+    text: entry.text,
+    type: entry.type,
+    timestamp: entry.timestamp,
+    id: typeof entry.id === 'string' ? entry.id : undefined,
+    status: isOneOf(TURN_STATUSES, entry.status) ? entry.status : undefined,
+    metadata: cleanMetadata(entry.metadata),
+  };
+}
+
+const isSessionId = (value: unknown): value is string => typeof value === 'string' && /^[\w-]{1,64}$/.test(value);
+
+/**
+ * Validates a mirror from a browser on the relay. Anything the operator's
+ * dashboard renders is checked here, since any visitor can publish one.
+ */
+export function parseSessionMessage(raw: string): SessionToRelay {
+  const message = parseJson(raw);
+  if (message.type !== 'mirror') throw new OperatorProtocolError(`Unknown session message "${message.type}".`);
+  const session = isObject(message.session) ? message.session : {};
+  if (!isSessionId(session.id)) throw new OperatorProtocolError('"session.id" must be a consultation id.');
+  if (!isOneOf(LANGUAGES, session.language)) throw new OperatorProtocolError('"session.language" is not supported.');
+  if (!isOneOf(STATUSES, session.status)) throw new OperatorProtocolError('"session.status" is not a known status.');
+  if (session.mode !== 'voice' && session.mode !== 'text') throw new OperatorProtocolError('"session.mode" must be "voice" or "text".');
+  if (!Array.isArray(session.transcriptions)) throw new OperatorProtocolError('"session.transcriptions" must be an array.');
+
+  const transcriptions = session.transcriptions.slice(-MAX_MIRRORED_ENTRIES).map(parseEntry);
+
+  let crisisStage: CrisisStage | null = null;
+  if (session.crisisStage) {
+    const { stage, reasoning } = isObject(session.crisisStage) ? session.crisisStage : {};
+    if (!isOneOf(STAGES, stage) || typeof reasoning !== 'string') throw new OperatorProtocolError('"session.crisisStage" must be null or { stage, reasoning }.');
+    crisisStage = { stage, reasoning };
+  }
+
+  const time = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+  return {
+    type: 'mirror',
+    session: {
+      id: session.id,
+      startedAt: time(session.startedAt),
+      updatedAt: time(session.updatedAt),
+      language: session.language,
+      status: session.status,
+      mode: session.mode,
+      crisisStage,
+      intake: isObject(session.intake) ? mergeIntake({}, session.intake) : {},
+      transcriptions,
+    },
+  };
+}
+
+export function parseOperatorMessage(raw: string): OperatorToRelay {
+  const message = parseJson(raw);
+  if (!isSessionId(message.sessionId)) throw new OperatorProtocolError('"sessionId" must be a consultation id.');
+  if (message.type === 'guidance') {
+    const text = typeof message.text === 'string' ? message.text.trim() : '';
+    if (!text || text.length > MAX_GUIDANCE_CHARS) throw new OperatorProtocolError(`"text" must be 1-${MAX_GUIDANCE_CHARS} characters.`);
+    return { type: 'guidance', sessionId: message.sessionId, text };
+  }
+  if (message.type === 'callbackFlag') {
+    if (typeof message.flagged !== 'boolean') throw new OperatorProtocolError('"flagged" must be true or false.');
+    return { type: 'callbackFlag', sessionId: message.sessionId, flagged: message.flagged };
+  }
+  throw new OperatorProtocolError(`Unknown operator message "${message.type}".`);
+}
@@ -0,0 +1,151 @@
+import { BACKEND_URL } from './backend';
+import { OperatorToRelay, RelayToOperator, RelayToSession, SessionMirror } from './operatorProtocol';
+
+/** Mirroring is opt-in per deployment: visitors are told when a consultant may be following along. */
+export const OPERATOR_RELAY_ENABLED = process.env.OPERATOR_RELAY === 'on';
+
+/** Streaming turns change many times a second; the operator does not need every delta. */
+const PUBLISH_INTERVAL_MS = 500;
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+export type RelayConnectionState = 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+/** The relay's WebSocket URL under `base`; a relative mount resolves against the page. */
+export function relayUrl(path: string, base = BACKEND_URL, page: string = window.location.href): string {
+  const url = new URL(`${base}${path}`, page);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+interface ReconnectingSocket {
+  send(message: object): boolean;
+  close(): void;
+}
+
+/**
+ * A WebSocket that reopens after drops, backing off up to the last delay.
+ * With `giveUpIfNeverOpened`, a first connection that fails (e.g. a refused
+ * token) is reported as `failed` instead of retried.
+ */
+function openReconnectingSocket(url: string, handlers: {
+  onOpen?: () => void;
+  onMessage: (data: unknown) => void;
+  onStateChange?: (state: RelayConnectionState) => void;
+  giveUpIfNeverOpened?: boolean;
+}): ReconnectingSocket {
+  let socket: WebSocket | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let everOpened = false;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      everOpened = true;
+      attempt = 0;
+      handlers.onStateChange?.('open');
+      handlers.onOpen?.();
+    };
+    socket.onmessage = (event) => {
+      try {
+        handlers.onMessage(JSON.parse(event.data));
+      } catch (err) {
+        console.error('Unreadable relay message:', err);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      if (!everOpened && handlers.giveUpIfNeverOpened) {
+        handlers.onStateChange?.('failed');
+        return;
+      }
+      handlers.onStateChange?.('reconnecting');
+      timer = setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)]);
+    };
+  };
+
+  handlers.onStateChange?.('connecting');
+  connect();
+
+  return {
+    send(message) {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(message));
+      return true;
+    },
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      // A clean close tells the relay the session is over rather than reconnecting.
+      socket?.close(1000);
+    },
+  };
+}
+
+export interface SessionMirrorLink {
+  /** Sends the latest state; calls in quick succession are coalesced. */
+  publish(mirror: SessionMirror): void;
+  close(): void;
+}
+
+/** The consultation's side of the relay: publishes its mirror and receives operator actions. */
+export function connectSessionMirror(handlers: {
+  onGuidance: (text: string) => void;
+  onCallbackFlag: (flagged: boolean) => void;
+}): SessionMirrorLink {
+  let latest: SessionMirror | null = null;
+  let pending = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const socket = openReconnectingSocket(relayUrl('/relay/session'), {
+    // A fresh connection starts with nothing, so the relay gets the current state straight away.
+    onOpen: () => {
+      if (latest) socket.send({ type: 'mirror', session: latest });
+    },
+    onMessage: (data) => {
+      const message = data as RelayToSession;
+      if (message.type === 'guidance') handlers.onGuidance(message.text);
+      else if (message.type === 'callbackFlag') handlers.onCallbackFlag(message.flagged);
+    },
+  });
+
+  const flush = () => {
+    timer = null;
+    if (!pending || !latest) return;
+    pending = false;
+    socket.send({ type: 'mirror', session: latest });
+    timer = setTimeout(flush, PUBLISH_INTERVAL_MS);
+  };
+
+  return {
+    publish(mirror) {
+      latest = mirror;
+      pending = true;
+      if (!timer) flush();
+    },
+    close() {
+      if (timer) clearTimeout(timer);
+      socket.close();
+    },
+  };
+}
+
+export interface OperatorConsole {
+  /** False when the relay is not connected and the action was not sent. */
+  send(message: OperatorToRelay): boolean;
+  close(): void;
+}
+
+export function connectOperatorConsole(token: string, handlers: {
+  onMessage: (message: RelayToOperator) => void;
+  onStateChange: (state: RelayConnectionState) => void;
+}): OperatorConsole {
+  const socket = openReconnectingSocket(`${relayUrl('/relay/operator')}?token=${encodeURIComponent(token)}`, {
+    onMessage: data => handlers.onMessage(data as RelayToOperator),
+    onStateChange: handlers.onStateChange,
+    giveUpIfNeverOpened: true,
+  });
+  return { send: message => socket.send(message), close: () => socket.close() };
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPlaybackScheduler } from './playbackScheduler';
+
+const fakeNode = () => ({ connect: vi.fn((target: unknown) => target), disconnect: vi.fn() });
+
+/** Records what the scheduler asks of the audio graph; `currentTime` is advanced by hand. */
+const fakeContext = () => {
+  const sources: any[] = [];
+  const gains: any[] = [];
+  const ctx = {
+    currentTime: 0,
+    destination: {},
+    createAnalyser: () => ({ ...fakeNode(), fftSize: 2048 }),
+    createGain: () => {
+      const gain = {
+        ...fakeNode(),
+        gain: { value: 1, cancelScheduledValues: vi.fn(), setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn() },
+      };
+      gains.push(gain);
+      return gain;
+    },
+    createBufferSource: () => {
+      const source = { ...fakeNode(), buffer: null, onended: null as (() => void) | null, start: vi.fn(), stop: vi.fn() };
+      sources.push(source);
+      return source;
+    },
+  };
+  /** Moves the clock, then fires `onended` for sources that have finished, as the browser would. */
+  const advance = (seconds: number) => {
+    vi.advanceTimersByTime(seconds * 1000);
+    ctx.currentTime += seconds;
+    for (const source of sources) {
+      const end = source.start.mock.calls[0][0] + source.buffer.duration;
+      if (source.onended && !source.ended && end <= ctx.currentTime + 1e-9) {
+        source.ended = true;
+        source.onended();
+      }
+    }
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, sources, gains, advance };
+};
+
+const chunk = (duration: number) => ({ duration }) as AudioBuffer;
+
+describe('createPlaybackScheduler', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('schedules chunks back to back after the jitter buffer', () => {
+    const { ctx, sources } = fakeContext();
+    const player = createPlaybackScheduler(ctx, { jitterBufferMs: 100 });
+    expect(player.enqueue(chunk(0.5))).toBeCloseTo(0.1);
+    player.enqueue(chunk(0.5));
+    player.enqueue(chunk(0.25));
+    expect(sources.map(s => s.start.mock.calls[0][0])).toEqual([0.1, 0.6, 1.1]);
+    expect(player.bufferedSeconds()).toBeCloseTo(1.35);
+  });
+
+  it('refills the jitter buffer after an underrun', () => {
+    const { ctx, sources, advance } = fakeContext();
+    const player = createPlaybackScheduler(ctx, { jitterBufferMs: 100 });
+    player.enqueue(chunk(0.5));
+    advance(1);
+    player.enqueue(chunk(0.5));
+    expect(sources[1].start.mock.calls[0][0]).toBeCloseTo(1.1);
+  });
+
+  it('reports speaking once per run, when the audio starts, and idle after the hold', () => {
+    const { ctx, advance } = fakeContext();
+    const onSpeakingChange = vi.fn();
+    const player = createPlaybackScheduler(ctx, { jitterBufferMs: 100, idleHoldMs: 250, onSpeakingChange });
+    player.enqueue(chunk(0.2));
+    player.enqueue(chunk(0.2));
+    expect(onSpeakingChange).not.toHaveBeenCalled();
+    advance(0.1);
+    expect(onSpeakingChange.mock.calls).toEqual([[true]]);
+
+    // A chunk arriving during the hold keeps the status steady.
+    advance(0.4);
+    player.enqueue(chunk(0.2));
+    advance(0.2);
+    expect(onSpeakingChange.mock.calls).toEqual([[true]]);
+    advance(0.1);
+    expect(onSpeakingChange.mock.calls).toEqual([[true]]);
+    advance(0.25);
+    expect(onSpeakingChange.mock.calls).toEqual([[true], [false]]);
+    expect(player.speaking).toBe(false);
+  });
+
+  it('fades out on interrupt and plays the next turn at full volume', () => {
+    const { ctx, sources, gains, advance } = fakeContext();
+    const onSpeakingChange = vi.fn();
+    const player = createPlaybackScheduler(ctx, { jitterBufferMs: 100, fadeOutMs: 40, onSpeakingChange });
+    player.enqueue(chunk(1));
+    player.enqueue(chunk(1));
+    advance(0.5);
+
+    player.interrupt();
+    expect(gains[0].gain.linearRampToValueAtTime).toHaveBeenCalledWith(0, expect.closeTo(0.54));
+    expect(sources.every(s => s.stop.mock.calls[0][0] === ctx.currentTime + 0.04)).toBe(true);
+    expect(onSpeakingChange.mock.calls).toEqual([[true], [false]]);
+    expect(player.bufferedSeconds()).toBe(0);
+
+    player.enqueue(chunk(0.5));
+    expect(sources[2].connect).toHaveBeenCalledWith(gains[1]);
+    expect(sources[2].start.mock.calls[0][0]).toBeCloseTo(0.6);
+    advance(0.1);
+    expect(gains[0].disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+/** Tuning for agent playback. */
+export interface PlaybackSchedulerOptions {
+  /** Lead time before the first chunk of a run plays, so late network chunks do not leave gaps. */
+  jitterBufferMs?: number;
+  /** Fade applied when playback is cut off, so barge-in does not click. */
+  fadeOutMs?: number;
+  /** Silence tolerated after the last chunk before reporting idle, so pauses between chunks do not flicker. */
+  idleHoldMs?: number;
+  /** Fires when audio actually starts coming out of the speaker, and when it has stopped. */
+  onSpeakingChange?: (speaking: boolean) => void;
+}
+
+export interface PlaybackScheduler {
+  /** Taps the agent's output after any fade, for visualisation. */
+  readonly analyser: AnalyserNode;
+  readonly speaking: boolean;
+  /** Queues `buffer` straight after what is already queued; returns the seconds until it starts. */
+  enqueue(buffer: AudioBuffer): number;
+  /** Seconds of audio queued ahead of the playhead. */
+  bufferedSeconds(): number;
+  /** Fades out and drops everything queued, e.g. when the caller barges in. */
+  interrupt(): void;
+  dispose(): void;
+}
+
+const DEFAULTS: Required<Omit<PlaybackSchedulerOptions, 'onSpeakingChange'>> = { jitterBufferMs: 100, fadeOutMs: 40, idleHoldMs: 250 };
+
+/**
+ * Gapless playback of streamed agent audio. Chunks are scheduled back to back
+ * on the context's clock; a run that starts from silence (or after an
+ * underrun) is delayed by the jitter buffer. Each run plays through its own
+ * gain node so an interrupted turn can fade out without touching the next.
+ */
+export function createPlaybackScheduler(ctx: BaseAudioContext, options: PlaybackSchedulerOptions = {}): PlaybackScheduler {
+  const { jitterBufferMs, fadeOutMs, idleHoldMs } = { ...DEFAULTS, ...options };
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 256;
+  analyser.connect(ctx.destination);
+
+  const active = new Set<AudioBufferSourceNode>();
+  let turnGain = ctx.createGain();
+  turnGain.connect(analyser);
+  let nextStartTime = 0;
+  let speaking = false;
+  let speakingTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimers = () => {
+    if (speakingTimer) clearTimeout(speakingTimer);
+    if (idleTimer) clearTimeout(idleTimer);
+    speakingTimer = idleTimer = null;
+  };
+
+  const setSpeaking = (next: boolean) => {
+    if (speaking === next) return;
+    speaking = next;
+    options.onSpeakingChange?.(next);
+  };
+
+  const stopAll = (at: number) => {
+    active.forEach(source => {
+      source.onended = null;
+      try { source.stop(at); } catch (e) {}
+    });
+    active.clear();
+    nextStartTime = 0;
+    clearTimers();
+    setSpeaking(false);
+  };
+
+  return {
+    analyser,
+    get speaking() {
+      return speaking;
+    },
+
+    enqueue(buffer) {
+      const now = ctx.currentTime;
+      const startAt = nextStartTime > now ? nextStartTime : now + jitterBufferMs / 1000;
+      nextStartTime = startAt + buffer.duration;
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(turnGain);
+      source.onended = () => {
+        active.delete(source);
+        if (active.size || idleTimer) return;
+        idleTimer = setTimeout(() => {
+          idleTimer = null;
+          if (!active.size) setSpeaking(false);
+        }, idleHoldMs);
+      };
+      source.start(startAt);
+      active.add(source);
+
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+      }
+      if (!speaking && !speakingTimer) {
+        speakingTimer = setTimeout(() => {
+          speakingTimer = null;
+          setSpeaking(true);
+        }, (startAt - now) * 1000);
+      }
+      return startAt - now;
+    },
+
+    bufferedSeconds() {
+      return Math.max(0, nextStartTime - ctx.currentTime);
+    },
+
+    interrupt() {
+      if (!active.size) {
+        stopAll(ctx.currentTime);
+        return;
+      }
+      const now = ctx.currentTime;
+      const end = now + fadeOutMs / 1000;
+      const fading = turnGain;
+      fading.gain.cancelScheduledValues(now);
+      fading.gain.setValueAtTime(fading.gain.value, now);
+      fading.gain.linearRampToValueAtTime(0, end);
+      stopAll(end);
+      setTimeout(() => fading.disconnect(), fadeOutMs + 50);
+
+      turnGain = ctx.createGain();
+      turnGain.connect(analyser);
+    },
+
+    dispose() {
+      stopAll(ctx.currentTime);
+      turnGain.disconnect();
+      analyser.disconnect();
+    },
+  };
+}
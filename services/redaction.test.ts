@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ConsultationRecord } from '../types';
+import { createRedactor, parseNameList, passesLuhn } from './redaction';
+
+describe('createRedactor', () => {
+  const redactor = createRedactor();
+
+  it('replaces contact details with placeholders', () => {
+    expect(redactor.redactText('Write to anna.rossi@acme.it or call +39 02 1234 5678.')).toBe('Write to [EMAIL] or call [PHONE].');
+    expect(redactor.redactText('Ring (555) 123-4567 tonight.')).toBe('Ring [PHONE] tonight.');
+    expect(redactor.redactText('Our office is at 221 Baker Street, and the plant at Via dei Mille 5.')).toBe(
+      'Our office is at [ADDRESS], and the plant at [ADDRESS].',
+    );
+  });
+
+  it('tells cards from other long numbers', () => {
+    expect(passesLuhn('4111111111111111')).toBe(true);
+    expect(redactor.redactText('Card 4111 1111 1111 1111 was used.')).toBe('Card [CARD] was used.');
+    expect(redactor.redactText('Account 4111 1111 1111 1112 was used.')).toBe('Account [ID] was used.');
+    expect(redactor.redactText('SSN 123-45-6789, IBAN IT60 X054 2811 1010 0000 0123 456.')).toBe('SSN [ID], IBAN [ID].');
+    expect(redactor.redactText('Codice fiscale RSSMRA85T10A562S')).toBe('Codice fiscale [ID]');
+  });
+
+  it('leaves dates, amounts and times alone', () => {
+    const text = 'On 2024-05-12 we lost 1.250.000 euros; the story runs at 10.30 on 12.05.2024.';
+    expect(redactor.redactText(text)).toBe(text);
+  });
+
+  it('matches sensitive names as whole words, ignoring case', () => {
+    const named = createRedactor(['Anna Rossi', 'Anna', 'Project  Falcon']);
+    expect(named.redactText('ANNA ROSSI briefed Anna on project falcon; Annalisa was not told.')).toBe(
+      '[NAME] briefed [NAME] on [NAME]; Annalisa was not told.',
+    );
+    expect(named.segments('Ask Anna.')).toEqual([{ text: 'Ask ' }, { text: 'Anna', category: 'name' }, { text: '.' }]);
+  });
+
+  it('redacts every free-text field of a record and keeps the rest', () => {
+    const record: ConsultationRecord = {
+      id: 'c-1',
+      startedAt: 1,
+      updatedAt: 2,
+      transcriptions: [
+        { type: 'user', text: 'Marco Bianchi leaked it to press@daily.com', timestamp: 1, status: 'final' },
+        { type: 'link', text: 'Holding statements', timestamp: 2, metadata: { url: 'https://example.com/guide' } },
+      ],
+      crisisStage: { stage: 'During', reasoning: 'Marco Bianchi went public' },
+      stageHistory: [{ stage: 'During', reasoning: 'Marco Bianchi went public', at: 1 }],
+      intake: { organization: 'Acme', stakeholders: ['Marco Bianchi', 'Board'] },
+    };
+    const redacted = createRedactor(['Marco Bianchi']).redactRecord(record);
+    expect(redacted.transcriptions[0]).toEqual({ ...record.transcriptions[0], text: '[NAME] leaked it to [EMAIL]' });
+    expect(redacted.transcriptions[1]).toEqual(record.transcriptions[1]);
+    expect(redacted.crisisStage.reasoning).toBe('[NAME] went public');
+    expect(redacted.stageHistory[0].reasoning).toBe('[NAME] went public');
+    expect(redacted.intake).toEqual({ organization: 'Acme', stakeholders: ['[NAME]', 'Board'] });
+    expect(redacted).not.toHaveProperty('caseBrief');
+    expect(record.transcriptions[0].text).toContain('Marco');
+  });
+});
+
+describe('parseNameList', () => {
+  it('drops blank lines and repeats', () => {
+    expect(parseNameList(' Anna  Rossi \n\nanna rossi\nAcme\n')).toEqual(['Anna Rossi', 'Acme']);
+  });
+});
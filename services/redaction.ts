@@ -0,0 +1,208 @@
+import { CaseBrief, ConsultationRecord, CrisisIntake, RedactionSettings } from '../types';
+
+const STORAGE_KEY = 'rk-redaction';
+
+export type RedactionCategory = 'name' | 'email' | 'phone' | 'address' | 'card' | 'id';
+
+export const REDACTION_CATEGORIES: RedactionCategory[] = ['name', 'email', 'phone', 'address', 'card', 'id'];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { names: [], redactSaved: false };
+
+/** What a detail is replaced with, so a reader can still follow the log. */
+export const REDACTION_PLACEHOLDERS: Record<RedactionCategory, string> = {
+  name: '[NAME]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  card: '[CARD]',
+  id: '[ID]',
+};
+
+export interface RedactionSpan {
+  start: number;
+  end: number;
+  category: RedactionCategory;
+}
+
+/** A run of text for the preview: kept as-is, or a detail that will be replaced. */
+export interface RedactionSegment {
+  text: string;
+  category?: RedactionCategory;
+}
+
+interface Detector {
+  pattern: RegExp;
+  /** The category of a match, or null for a lookalike the pattern cannot rule out by itself. */
+  classify: (match: string) => RedactionCategory | null;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+/** The checksum every payment card number satisfies. */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Dates and grouped amounts look like phone numbers to the pattern. */
+function isPhoneNumber(match: string): boolean {
+  const digits = digitsOf(match).length;
+  if (digits < 7 || digits > 15) return false;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(match) || /^\d{1,2}[.-]\d{1,2}[.-]\d{4}$/.test(match)) return false;
+  return !/^\d{1,3}(?:[.,]\d{3})+$/.test(match);
+}
+
+const always = (category: RedactionCategory) => () => category;
+
+const STREET_TYPES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Square|Sq|Terrace|Parkway|Pkwy|Highway|Hwy';
+const ITALIAN_STREET_TYPES = 'Via|Viale|Piazza|Piazzale|Corso|Largo|Vicolo|Strada';
+
+/** Where two detections overlap, the one that starts first (then the longer) wins. */
+const DETECTORS: Detector[] = [
+  { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, classify: always('email') },
+  // Long digit runs that fail the card checksum are still account or ID numbers.
+  { pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g, classify: match => (passesLuhn(digitsOf(match)) ? 'card' : 'id') },
+  // IBANs as printed in groups of four, US Social Security numbers and Italian tax codes.
+  { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, classify: always('id') },
+  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, classify: always('id') },
+  { pattern: /\b[A-Z]{6}\d{2}[A-Z]\d{2}[A-Z]\d{3}[A-Z]\b/gi, classify: always('id') },
+  { pattern: new RegExp(`\\b\\d{1,5}\\s+(?:[A-Z][\\w'.-]*\\s+){1,4}(?:${STREET_TYPES})\\b\\.?`, 'g'), classify: always('address') },
+  { pattern: new RegExp(`\\b(?:${ITALIAN_STREET_TYPES})\\s+[^\\d\\n,.;:!?]{2,40}?,?\\s*\\d{1,4}(?:\\/?[A-Za-z])?\\b`, 'g'), classify: always('address') },
+  {
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?!\w)/g,
+    classify: match => (isPhoneNumber(match) ? 'phone' : null),
+  },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/** Whole-word, case-insensitive matching; longer names first so "Anna Rossi" beats "Anna". */
+function namePattern(names: string[]): RegExp | null {
+  const terms = parseNameList(names.join('\n')).sort((a, b) => b.length - a.length);
+  if (!terms.length) return null;
+  const alternatives = terms.map(term => term.split(/\s+/).map(escapeRegExp).join('\\s+'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function findSpans(text: string, names: RegExp | null): RedactionSpan[] {
+  const found: RedactionSpan[] = [];
+  const collect = (pattern: RegExp, classify: Detector['classify']) => {
+    for (const match of text.matchAll(pattern)) {
+      const category = classify(match[0]);
+      if (category) found.push({ start: match.index, end: match.index + match[0].length, category });
+    }
+  };
+  if (names) collect(names, always('name'));
+  DETECTORS.forEach(({ pattern, classify }) => collect(pattern, classify));
+
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: RedactionSpan[] = [];
+  for (const span of found) {
+    if (!kept.length || span.start >= kept[kept.length - 1].end) kept.push(span);
+  }
+  return kept;
+}
+
+export interface Redactor {
+  /** Sensitive details in `text`, in order and never overlapping. */
+  spans(text: string): RedactionSpan[];
+  segments(text: string): RedactionSegment[];
+  redactText(text: string): string;
+  /** A copy of `record` with every free-text field redacted; ids, times, links and callbacks are kept. */
+  redactRecord(record: ConsultationRecord): ConsultationRecord;
+}
+
+/** Redacts emails, phone numbers, addresses and card/ID numbers, plus any of `names`. */
+export function createRedactor(names: string[] = []): Redactor {
+  const nameMatcher = namePattern(names);
+  const spans = (text: string) => findSpans(text, nameMatcher);
+
+  const segments = (text: string): RedactionSegment[] => {
+    const result: RedactionSegment[] = [];
+    let at = 0;
+    for (const { start, end, category } of spans(text)) {
+      if (start > at) result.push({ text: text.slice(at, start) });
+      result.push({ text: text.slice(start, end), category });
+      at = end;
+    }
+    if (at < text.length) result.push({ text: text.slice(at) });
+    return result;
+  };
+
+  const redactText = (text: string) =>
+    segments(text).map(segment => (segment.category ? REDACTION_PLACEHOLDERS[segment.category] : segment.text)).join('');
+
+  const redactIntake = (intake: CrisisIntake): CrisisIntake => {
+    const next: CrisisIntake = { ...intake };
+    for (const field of ['organization', 'industry', 'location'] as const) {
+      if (next[field]) next[field] = redactText(next[field]);
+    }
+    if (next.stakeholders) next.stakeholders = next.stakeholders.map(redactText);
+    return next;
+  };
+
+  const redactBrief = (brief: CaseBrief): CaseBrief => ({
+    ...brief,
+    summary: redactText(brief.summary),
+    stakeholders: brief.stakeholders.map(redactText),
+    risks: brief.risks.map(redactText),
+    holdingLines: brief.holdingLines.map(redactText),
+    actions: { '24h': brief.actions['24h'].map(redactText), '48h': brief.actions['48h'].map(redactText), '72h': brief.actions['72h'].map(redactText) },
+  });
+
+  return {
+    spans,
+    segments,
+    redactText,
+    redactRecord(record) {
+      const redacted: ConsultationRecord = {
+        ...record,
+        transcriptions: record.transcriptions.map(entry => ({ ...entry, text: redactText(entry.text) })),
+        crisisStage: record.crisisStage && { ...record.crisisStage, reasoning: redactText(record.crisisStage.reasoning) },
+        intake: redactIntake(record.intake),
+      };
+      if (record.stageHistory) redacted.stageHistory = record.stageHistory.map(change => ({ ...change, reasoning: redactText(change.reasoning) }));
+      if (record.caseBrief) redacted.caseBrief = redactBrief(record.caseBrief);
+      return redacted;
+    },
+  };
+}
+
+/** One name per line, as typed in the preview; blank lines and repeats are dropped. */
+export function parseNameList(text: string): string[] {
+  const seen = new Set<string>();
+  return text.split('\n').map(line => line.trim().replace(/\s+/g, ' ')).filter(name => {
+    if (!name || seen.has(name.toLowerCase())) return false;
+    seen.add(name.toLowerCase());
+    return true;
+  });
+}
+
+/** The names list stays on this device, next to the consultations it protects. */
+export function loadRedactionSettings(): RedactionSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      names: Array.isArray(stored?.names) ? parseNameList(stored.names.filter((name: unknown) => typeof name === 'string').join('\n')) : [],
+      redactSaved: stored?.redactSaved === true,
+    };
+  } catch {
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+}
+
+export function saveRedactionSettings(settings: RedactionSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Not persisting is fine; the list still applies for this visit.
+  }
+}
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CrisisIntake, SchedulingPolicy, Transcription } from '../types';
+import { availableSlots, buildCallbackInvite, proposeSlots, requestedCallbackStarts, zonedTimeToUtc } from './scheduling';
+import { scheduleCallbackTool } from './tools/scheduleCallback';
+import { ToolContext, ToolErrorCode, createSessionTools, dispatchToolCall } from './tools';
+
+const POLICY: SchedulingPolicy = {
+  windows: [
+    { label: 'New York', timeZone: 'America/New_York', days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' },
+    { label: 'Italy', timeZone: 'Europe/Rome', days: [1, 2, 3, 4, 5], start: '10:00', end: '18:00' },
+  ],
+  slotMinutes: 60,
+  minNoticeHours: 2,
+  horizonDays: 7,
+};
+
+/** Monday 20 October 2025, 06:00 UTC. */
+const MONDAY = Date.UTC(2025, 9, 20, 6);
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock time on either side of a DST change', () => {
+    expect(new Date(zonedTimeToUtc(2025, 7, 1, 9 * 60, 'America/New_York')).toISOString()).toBe('2025-07-01T13:00:00.000Z');
+    expect(new Date(zonedTimeToUtc(2025, 12, 1, 9 * 60, 'America/New_York')).toISOString()).toBe('2025-12-01T14:00:00.000Z');
+    expect(new Date(zonedTimeToUtc(2025, 10, 27, 10 * 60, 'Europe/Rome')).toISOString()).toBe('2025-10-27T09:00:00.000Z');
+  });
+});
+
+describe('availableSlots', () => {
+  it('respects notice, weekdays and both windows', () => {
+    const slots = availableSlots(POLICY, MONDAY);
+    // Rome opens at 08:00 UTC, which is inside the two-hour notice from 06:00.
+    expect(new Date(slots[0].start).toISOString()).toBe('2025-10-20T08:00:00.000Z');
+    expect(slots[0].window.label).toBe('Italy');
+    expect(slots.some(slot => new Date(slot.start).getUTCDay() === 6)).toBe(false);
+    expect(slots.find(slot => slot.window.label === 'New York')?.start).toBe(Date.UTC(2025, 9, 20, 13));
+  });
+
+  it('lists each instant once when windows overlap', () => {
+    const starts = availableSlots(POLICY, MONDAY).map(slot => slot.start);
+    expect(new Set(starts).size).toBe(starts.length);
+  });
+});
+
+describe('proposeSlots', () => {
+  it('keeps to the caller\'s waking hours and two slots a day', () => {
+    const slots = proposeSlots(POLICY, MONDAY, 'Asia/Tokyo');
+    expect(slots.length).toBeGreaterThan(0);
+    for (const slot of slots) {
+      const hour = Number(new Intl.DateTimeFormat('en-US', { timeZone: 'Asia/Tokyo', hour: 'numeric', hourCycle: 'h23' }).format(slot.start));
+      expect(hour).toBeGreaterThanOrEqual(8);
+      expect(hour).toBeLessThan(20);
+    }
+    const days = slots.map(slot => new Date(slot.start + 9 * 3600_000).toISOString().slice(0, 10));
+    for (const day of new Set(days)) expect(days.filter(d => d === day).length).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('buildCallbackInvite', () => {
+  it('writes a UTC event with escaped text and folded lines', () => {
+    const ics = buildCallbackInvite(
+      { start: '2025-10-21T13:00:00.000Z', end: '2025-10-21T14:00:00.000Z', timeZone: 'America/Chicago', windowLabel: 'New York', windowTimeZone: 'America/New_York' },
+      { uid: 'abc@callback', summary: 'Call with Rich Klein, RKCM; follow-up', description: 'x'.repeat(100), organizer: 'RKCM', stampedAt: MONDAY },
+    );
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('DTSTART:20251021T130000Z');
+    expect(lines).toContain('DTEND:20251021T140000Z');
+    expect(lines).toContain('DTSTAMP:20251020T060000Z');
+    expect(lines).toContain('SUMMARY:Call with Rich Klein\\, RKCM\\; follow-up');
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
+
+/** What schedule_callback answers with, for either action or a refusal. */
+interface CallbackToolResponse {
+  timezone?: string;
+  slots?: { start: string; callerTime: string; consultantTime: string }[];
+  result?: string;
+  callerTime?: string;
+  error?: { code: ToolErrorCode; message: string };
+}
+
+describe('schedule_callback tool', () => {
+  let entries: Transcription[];
+  let intake: CrisisIntake;
+  let requested: number[];
+  const context = (): ToolContext => ({
+    addTranscription: entry => entries.push(entry),
+    getRequestedCallbacks: () => requested,
+    addRequestedCallback: start => { requested = [...requested, start]; },
+    getCrisisStage: () => null,
+    setCrisisStage: () => {},
+    getIntake: () => intake,
+    setIntake: updated => { intake = updated; },
+    linkPolicy: { allowedDomains: [], resources: [] },
+    scheduling: POLICY,
+  });
+  const call = (args: Record<string, unknown>): CallbackToolResponse =>
+    dispatchToolCall(createSessionTools(['schedule_callback']), { id: '1', name: 'schedule_callback', args }, context()).response;
+
+  beforeEach(() => {
+    entries = [];
+    intake = {};
+    requested = [];
+    vi.useFakeTimers();
+    vi.setSystemTime(MONDAY);
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('asks for a timezone when none is known', () => {
+    expect(call({ action: 'propose' }).error.code).toBe('timezone_required');
+  });
+
+  it('rejects unknown timezones', () => {
+    expect(scheduleCallbackTool.validate({ action: 'propose', timezone: 'Mars/Olympus' }).ok).toBe(false);
+  });
+
+  it('proposes slots, records the timezone and requests a proposed slot', () => {
+    const proposal = call({ action: 'propose', timezone: 'America/Chicago' });
+    expect(intake.timezone).toBe('America/Chicago');
+    expect(proposal.slots[0]).toMatchObject({ start: expect.any(String), callerTime: expect.stringContaining('GMT-5') });
+
+    const requested = call({ action: 'confirm', start: proposal.slots[0].start });
+    expect(requested.result).toMatch(/requested, not yet confirmed/i);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ type: 'callback', metadata: { callback: { start: proposal.slots[0].start, timeZone: 'America/Chicago' } } });
+  });
+
+  it('does not offer or accept a slot already requested', () => {
+    const [first] = call({ action: 'propose', timezone: 'America/Chicago' }).slots;
+    call({ action: 'confirm', start: first.start });
+
+    expect(call({ action: 'propose' }).slots.map(slot => slot.start)).not.toContain(first.start);
+    expect(call({ action: 'confirm', start: first.start }).error.code).toBe('slot_unavailable');
+    expect(entries).toHaveLength(1);
+    expect(requestedCallbackStarts(entries)).toEqual([Date.parse(first.start)]);
+  });
+
+  it('refuses a repeated request in the same batch, before the log has caught up', () => {
+    const [first] = call({ action: 'propose', timezone: 'America/Chicago' }).slots;
+    const rendered: Transcription[] = [];
+    const batchContext = { ...context(), addTranscription: (entry: Transcription) => rendered.push(entry) };
+    const batch = [1, 2].map(id =>
+      dispatchToolCall(createSessionTools(['schedule_callback']), { id: String(id), name: 'schedule_callback', args: { action: 'confirm', start: first.start } }, batchContext),
+    );
+    expect(batch.map(({ response }) => (response as CallbackToolResponse).error?.code)).toEqual([undefined, 'slot_unavailable']);
+    expect(rendered).toHaveLength(1);
+  });
+
+  it('refuses a time outside the availability windows', () => {
+    intake = { timezone: 'Europe/London' };
+    expect(call({ action: 'confirm', start: '2025-10-25T12:00:00Z' }).error.code).toBe('slot_unavailable');
+    expect(entries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,207 @@
+import { AvailabilityWindow, ScheduledCallback, SchedulingPolicy, Transcription } from '../types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Slots offered to a caller are kept inside their own working day where possible. */
+const CALLER_DAY_START = 8;
+const CALLER_DAY_END = 20;
+const MAX_SLOTS_PER_DAY = 2;
+
+export interface CallbackSlot {
+  start: number;
+  end: number;
+  window: AvailabilityWindow;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "HH:MM" to minutes after midnight, or null when malformed. */
+export function parseClockTime(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of `instant` in `timeZone`. */
+function zonedParts(instant: number, timeZone: string) {
+  let format = partFormatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partFormatters.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The UTC instant at which a wall-clock time occurs in `timeZone`. The second
+ * pass corrects for a DST change between the guess and the answer.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const first = wallClock - offsetAt(wallClock, timeZone);
+  const second = offsetAt(first, timeZone);
+  return wallClock - second;
+}
+
+/** Every open slot from `now` to the policy's horizon, earliest first, leaving out the `taken` starts. */
+export function availableSlots(policy: SchedulingPolicy, now: number, taken: number[] = []): CallbackSlot[] {
+  const earliest = now + policy.minNoticeHours * HOUR;
+  const latest = now + policy.horizonDays * DAY;
+  const slots = new Map<number, CallbackSlot>();
+
+  for (const window of policy.windows) {
+    const open = parseClockTime(window.start);
+    const close = parseClockTime(window.end);
+    if (open === null || close === null) continue;
+    const today = zonedParts(now, window.timeZone);
+
+    for (let offset = 0; offset <= policy.horizonDays; offset++) {
+      const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+      if (!window.days.includes(date.getUTCDay())) continue;
+      for (let minutes = open; minutes + policy.slotMinutes <= close; minutes += policy.slotMinutes) {
+        const start = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minutes, window.timeZone);
+        if (start < earliest || start > latest || slots.has(start) || taken.includes(start)) continue;
+        slots.set(start, { start, end: start + policy.slotMinutes * MINUTE, window });
+      }
+    }
+  }
+  return [...slots.values()].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * A short, varied list to offer a caller: at most two slots a day, inside the
+ * caller's own working hours unless nothing else is open.
+ */
+export function proposeSlots(policy: SchedulingPolicy, now: number, callerTimeZone: string, taken: number[] = [], count = 6): CallbackSlot[] {
+  const all = availableSlots(policy, now, taken);
+  const sociable = all.filter(slot => {
+    const { hour } = zonedParts(slot.start, callerTimeZone);
+    return hour >= CALLER_DAY_START && hour < CALLER_DAY_END;
+  });
+  const perDay = new Map<string, number>();
+  const picked: CallbackSlot[] = [];
+  for (const slot of sociable.length ? sociable : all) {
+    const { year, month, day } = zonedParts(slot.start, callerTimeZone);
+    const key = `${year}-${month}-${day}`;
+    const taken = perDay.get(key) ?? 0;
+    if (taken >= MAX_SLOTS_PER_DAY) continue;
+    perDay.set(key, taken + 1);
+    picked.push(slot);
+    if (picked.length === count) break;
+  }
+  return picked;
+}
+
+/** e.g. "Tue 21 Oct, 15:00 CEST". Tool responses use the English default; cards pass the interface locale. */
+export function formatSlotTime(instant: number, timeZone: string, locale = 'en-GB'): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(instant);
+}
+
+/** Starts of the callbacks already requested in a consultation's log, so a resumed one does not repeat them. */
+export function requestedCallbackStarts(entries: Transcription[]): number[] {
+  return entries
+    .map(entry => entry.metadata?.callback && Date.parse(entry.metadata.callback.start))
+    .filter((start): start is number => typeof start === 'number');
+}
+
+export function toScheduledCallback(slot: CallbackSlot, callerTimeZone: string): ScheduledCallback {
+  return {
+    start: new Date(slot.start).toISOString(),
+    end: new Date(slot.end).toISOString(),
+    timeZone: callerTimeZone,
+    windowLabel: slot.window.label,
+    windowTimeZone: slot.window.timeZone,
+  };
+}
+
+const icsDate = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** RFC 5545 limits lines to 75 octets; longer ones continue on lines starting with a space. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+export interface InviteDetails {
+  uid: string;
+  summary: string;
+  description: string;
+  organizer: string;
+  /** Defaults to now; fixed in tests. */
+  stampedAt?: number;
+}
+
+/** A single-event calendar file for the callback, in UTC so every calendar app places it correctly. */
+export function buildCallbackInvite(callback: ScheduledCallback, details: InviteDetails): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${icsText(details.organizer)}//Crisis Consultation//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${details.uid}`,
+    `DTSTAMP:${icsDate(new Date(details.stampedAt ?? Date.now()).toISOString())}`,
+    `DTSTART:${icsDate(callback.start)}`,
+    `DTEND:${icsDate(callback.end)}`,
+    `SUMMARY:${icsText(details.summary)}`,
+    `DESCRIPTION:${icsText(details.description)}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:-PT15M',
+    `DESCRIPTION:${icsText(details.summary)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,43 @@
+import { Content } from '@google/genai';
+import { CrisisIntake, CrisisStage, Transcription } from '../types';
+
+/** Keeps the re-seeded context well inside the live model's window. */
+const MAX_RESUME_ENTRIES = 40;
+
+export type ResumeReason = 'reconnect' | 'return' | 'settings';
+
+const RESUME_NOTES: Record<ResumeReason, string> = {
+  reconnect: 'The connection dropped and has now been restored. The conversation so far is above. Do NOT repeat the initial greeting. Briefly tell the user you are back, then continue exactly where you left off.',
+  settings: 'The session was restarted because the user changed your voice settings. The conversation so far is above. Do NOT repeat the initial greeting. Continue exactly where you left off in the new voice, without commenting on the restart unless asked.',
+  return: 'The user has come back to this earlier consultation. The conversation so far is above. Do NOT repeat the initial greeting. Welcome them back, briefly recap where things stood, and ask what has changed since.',
+};
+
+/**
+ * Rebuilds the conversation as client content so a fresh live session can
+ * pick up where a dropped or previously saved one left off.
+ */
+export function buildResumeTurns(
+  transcriptions: Transcription[],
+  crisisStage: CrisisStage | null,
+  intake: CrisisIntake = {},
+  reason: ResumeReason = 'reconnect',
+): Content[] {
+  const turns: Content[] = transcriptions.slice(-MAX_RESUME_ENTRIES).map(t => {
+    if (t.type === 'link') {
+      return { role: 'model', parts: [{ text: `(Shared link: ${t.metadata?.title} - ${t.metadata?.url})` }] };
+    }
+    if (t.type === 'callback') {
+      return { role: 'model', parts: [{ text: `(${t.text}; already requested, do not request it again)` }] };
+    }
+    return { role: t.type, parts: [{ text: t.text }] };
+  });
+
+  const stageNote = crisisStage
+    ? ` The crisis stage was already set to ${crisisStage.stage} (${crisisStage.reasoning}); only call set_crisis_stage again if it changes.`
+    : '';
+  const intakeNote = Object.keys(intake).length
+    ? ` Intake details already recorded: ${JSON.stringify(intake)}.`
+    : '';
+  turns.push({ role: 'user', parts: [{ text: RESUME_NOTES[reason] + stageNote + intakeNote }] });
+  return turns;
+}
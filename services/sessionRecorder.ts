@@ -0,0 +1,98 @@
+import { encodeWav, float32ToInt16 } from './audioUtils';
+
+/** Recordings are written at the agent's output rate; the caller's 16 kHz audio is upsampled to match. */
+export const RECORDING_SAMPLE_RATE = 24000;
+
+/** Caps memory use: an hour of stereo 16-bit audio is already ~350 MB once encoded. */
+export const MAX_RECORDING_MS = 60 * 60 * 1000;
+
+interface Chunk {
+  /** Position on the recording timeline, in samples at `RECORDING_SAMPLE_RATE`. */
+  at: number;
+  pcm: Int16Array;
+}
+
+export interface SessionRecorder {
+  readonly startedAt: number;
+  /** Milliseconds recorded so far. */
+  elapsedMs(): number;
+  /** A microphone frame that was actually sent to the agent. */
+  addCallerFrame(pcm: Int16Array, sampleRate: number): void;
+  /** Agent speech, scheduled to start `delaySeconds` from now. */
+  addAgentAudio(buffer: AudioBuffer, delaySeconds: number): void;
+  /** Drops agent audio that was scheduled but cut off by an interruption. */
+  truncateAgent(): void;
+  /** Stereo WAV: caller on the left channel, agent on the right. */
+  toWav(): Uint8Array<ArrayBuffer>;
+}
+
+function resample(pcm: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return pcm;
+  const ratio = fromRate / toRate;
+  const out = new Int16Array(Math.round(pcm.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, pcm.length - 1);
+    out[i] = Math.round(pcm[index] + (pcm[next] - pcm[index]) * (pos - index));
+  }
+  return out;
+}
+
+function mixDown(chunks: Chunk[], length: number): Int16Array {
+  const track = new Int16Array(length);
+  for (const { at, pcm } of chunks) {
+    for (let i = 0; i < pcm.length && at + i < length; i++) {
+      track[at + i] = Math.max(-32768, Math.min(32767, track[at + i] + pcm[i]));
+    }
+  }
+  return track;
+}
+
+/**
+ * Keeps both sides of a consultation on one wall-clock timeline so the
+ * exported file plays back exactly as the conversation happened, pauses
+ * included. Nothing is recorded until this is created, which the UI only
+ * does after the caller opts in.
+ */
+export function createSessionRecorder(now: () => number = () => performance.now()): SessionRecorder {
+  const origin = now();
+  const caller: Chunk[] = [];
+  const agent: Chunk[] = [];
+  let callerHead = 0;
+
+  const position = (offsetSeconds = 0) =>
+    Math.max(0, Math.round(((now() - origin) / 1000 + offsetSeconds) * RECORDING_SAMPLE_RATE));
+  const full = () => now() - origin >= MAX_RECORDING_MS;
+
+  return {
+    startedAt: Date.now(),
+    elapsedMs: () => now() - origin,
+    addCallerFrame(pcm, sampleRate) {
+      if (full()) return;
+      const samples = resample(pcm, sampleRate, RECORDING_SAMPLE_RATE);
+      // Frames arrive once they are complete, so they end "now"; never overlap the previous one.
+      const at = Math.max(callerHead, position() - samples.length);
+      caller.push({ at, pcm: samples });
+      callerHead = at + samples.length;
+    },
+    addAgentAudio(buffer, delaySeconds) {
+      if (full()) return;
+      const pcm = float32ToInt16(buffer.getChannelData(0));
+      agent.push({ at: position(delaySeconds), pcm: resample(pcm, buffer.sampleRate, RECORDING_SAMPLE_RATE) });
+    },
+    truncateAgent() {
+      const cut = position();
+      for (let i = agent.length - 1; i >= 0; i--) {
+        const chunk = agent[i];
+        if (chunk.at >= cut) agent.splice(i, 1);
+        else if (chunk.at + chunk.pcm.length > cut) agent[i] = { at: chunk.at, pcm: chunk.pcm.subarray(0, cut - chunk.at) };
+      }
+    },
+    toWav() {
+      const end = (chunks: Chunk[]) => chunks.reduce((max, c) => Math.max(max, c.at + c.pcm.length), 0);
+      const length = Math.max(end(caller), end(agent));
+      return encodeWav([mixDown(caller, length), mixDown(agent, length)], RECORDING_SAMPLE_RATE);
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { ConsultationRecord } from '../types';
+import { createRedactor, loadRedactionSettings } from './redaction';
+
+const DB_NAME = 'rich-klein-consultations';
+const DB_VERSION = 1;
+const STORE = 'consultations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = op(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createConsultationId(): string {
+  return crypto.randomUUID();
+}
+
+/** With "redact saved consultations" on, only the redacted copy ever reaches the browser's storage. */
+export async function saveConsultation(record: ConsultationRecord): Promise<void> {
+  const { names, redactSaved } = loadRedactionSettings();
+  const stored = redactSaved ? createRedactor(names).redactRecord(record) : record;
+  await run('readwrite', store => store.put(stored));
+}
+
+export function getConsultation(id: string): Promise<ConsultationRecord | undefined> {
+  return run('readonly', store => store.get(id));
+}
+
+/** All saved consultations, most recently updated first. */
+export async function listConsultations(): Promise<ConsultationRecord[]> {
+  const records = await run<ConsultationRecord[]>('readonly', store => store.index('updatedAt').getAll());
+  return records.reverse();
+}
+
+export async function deleteConsultation(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,22 @@
+import { ConsultationRecord, CrisisStage, CrisisStageChange } from '../types';
+
+/**
+ * Adds a stage call to the timeline. Repeating the current stage refines its
+ * reasoning instead of adding a step, so the timeline only shows real moves.
+ */
+export function appendStage(history: CrisisStageChange[], stage: CrisisStage, at: number = Date.now()): CrisisStageChange[] {
+  const last = history[history.length - 1];
+  if (last?.stage === stage.stage) {
+    return [...history.slice(0, -1), { ...last, reasoning: stage.reasoning }];
+  }
+  return [...history, { ...stage, at }];
+}
+
+export const currentStage = (history: CrisisStageChange[]): CrisisStageChange | null =>
+  history[history.length - 1] ?? null;
+
+/** The timeline of a saved record, reconstructing a single step for records that predate it. */
+export function stageHistoryOf(record: Pick<ConsultationRecord, 'crisisStage' | 'stageHistory' | 'startedAt'>): CrisisStageChange[] {
+  if (record.stageHistory) return record.stageHistory;
+  return record.crisisStage ? [{ ...record.crisisStage, at: record.startedAt }] : [];
+}
@@ -0,0 +1,16 @@
+import { AgentToolName } from '../../types';
+import { AgentTool, ToolRegistry, createToolRegistry } from './registry';
+import { recordCrisisIntakeTool } from './recordCrisisIntake';
+import { scheduleCallbackTool } from './scheduleCallback';
+import { setCrisisStageTool } from './setCrisisStage';
+import { shareLinkTool } from './shareLink';
+
+export type { AgentTool, ToolContext, ToolErrorCode, ToolRegistry } from './registry';
+export { dispatchToolCall, toolDeclarations } from './registry';
+
+/** Every tool the agent knows how to run. A new tool is one module plus one entry here. */
+export const AGENT_TOOLS: AgentTool<unknown>[] = [shareLinkTool, setCrisisStageTool, recordCrisisIntakeTool, scheduleCallbackTool];
+
+/** The registry for a session, limited to the tools the agent profile enables. */
+export const createSessionTools = (enabled: AgentToolName[]): ToolRegistry =>
+  createToolRegistry(AGENT_TOOLS.filter(tool => enabled.includes(tool.name)));
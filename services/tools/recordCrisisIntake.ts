@@ -0,0 +1,76 @@
+import { Type } from '@google/genai';
+import { CrisisIntake } from '../../types';
+import { CONTACT_METHODS, MEDIA_EXPOSURE_LEVELS, URGENCY_LEVELS, mergeIntake, missingIntakeFields } from '../intake';
+import { AgentTool } from './registry';
+import { optionalEnum, optionalString, optionalStringArray, rejectUnknownKeys } from './validate';
+
+const FIELDS = ['organization', 'industry', 'location', 'timezone', 'stakeholders', 'mediaExposure', 'urgency', 'preferredContact'];
+
+export const recordCrisisIntakeTool: AgentTool<CrisisIntake> = {
+  name: 'record_crisis_intake',
+  declaration: {
+    name: 'record_crisis_intake',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Records structured intake details about the caller\'s crisis as soon as they are mentioned. Call it again whenever you learn more; only include fields you have just learned.',
+      properties: {
+        organization: {
+          type: Type.STRING,
+          description: 'The name of the affected organization.',
+        },
+        industry: {
+          type: Type.STRING,
+          description: 'The organization\'s industry or sector.',
+        },
+        location: {
+          type: Type.STRING,
+          description: 'City, region or country where the organization or crisis is based.',
+        },
+        timezone: {
+          type: Type.STRING,
+          description: 'The caller\'s IANA timezone if known or inferable from the location (e.g., "America/New_York").',
+        },
+        stakeholders: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: 'Groups affected by the crisis (e.g., "employees", "customers", "investors", "regulators").',
+        },
+        mediaExposure: {
+          type: Type.STRING,
+          enum: [...MEDIA_EXPOSURE_LEVELS],
+          description: 'How far the story has spread in the media so far.',
+        },
+        urgency: {
+          type: Type.STRING,
+          enum: [...URGENCY_LEVELS],
+          description: 'How quickly the caller needs help.',
+        },
+        preferredContact: {
+          type: Type.STRING,
+          enum: [...CONTACT_METHODS],
+          description: 'How the caller prefers the consultant to contact them.',
+        },
+      },
+    },
+  },
+  validate: (args) => {
+    const issues: string[] = [];
+    const update: CrisisIntake = {
+      organization: optionalString(args, 'organization', issues),
+      industry: optionalString(args, 'industry', issues),
+      location: optionalString(args, 'location', issues),
+      timezone: optionalString(args, 'timezone', issues),
+      stakeholders: optionalStringArray(args, 'stakeholders', issues),
+      mediaExposure: optionalEnum(args, 'mediaExposure', MEDIA_EXPOSURE_LEVELS, issues),
+      urgency: optionalEnum(args, 'urgency', URGENCY_LEVELS, issues),
+      preferredContact: optionalEnum(args, 'preferredContact', CONTACT_METHODS, issues),
+    };
+    rejectUnknownKeys(args, FIELDS, issues);
+    return issues.length ? { ok: false, issues } : { ok: true, args: update };
+  },
+  handle: (update, { getIntake, setIntake }) => {
+    const updated = mergeIntake(getIntake(), update as Record<string, unknown>);
+    setIntake(updated);
+    return { result: 'Intake updated.', stillMissing: missingIntakeFields(updated) };
+  },
+};
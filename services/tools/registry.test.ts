@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CrisisStage, Transcription } from '../../types';
+import { ToolContext, createSessionTools, dispatchToolCall } from './index';
+
+describe('dispatchToolCall', () => {
+  let entries: Transcription[];
+  let stage: CrisisStage | null;
+  const context = (): ToolContext => ({
+    addTranscription: entry => entries.push(entry),
+    getRequestedCallbacks: () => [],
+    addRequestedCallback: () => {},
+    getCrisisStage: () => stage,
+    setCrisisStage: next => { stage = next; },
+    getIntake: () => ({}),
+    setIntake: () => {},
+    linkPolicy: { allowedDomains: [], resources: [] },
+  });
+  const tools = createSessionTools(['set_crisis_stage']);
+
+  beforeEach(() => {
+    entries = [];
+    stage = null;
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('answers an unknown tool with the tools that do exist', () => {
+    const response = dispatchToolCall(tools, { id: 'a', name: 'share_link', args: { url: 'https://example.com' } }, context());
+    expect(response).toEqual({
+      id: 'a',
+      name: 'share_link',
+      response: { error: { code: 'unknown_tool', message: 'There is no tool named "share_link".', availableTools: ['set_crisis_stage'] } },
+    });
+  });
+
+  it('rejects invalid arguments without running the handler', () => {
+    const response = dispatchToolCall(tools, { id: 'b', name: 'set_crisis_stage', args: { stage: 'Soon', extra: true } }, context());
+    expect(response.response.error).toMatchObject({
+      code: 'invalid_arguments',
+      issues: [expect.stringContaining('"stage"'), expect.stringContaining('"reasoning"'), expect.stringContaining('"extra"')],
+    });
+    expect(stage).toBeNull();
+    expect(entries).toEqual([]);
+  });
+
+  it('runs valid calls and reports handler failures as errors', () => {
+    const ok = dispatchToolCall(tools, { id: 'c', name: 'set_crisis_stage', args: { stage: 'During', reasoning: 'Story is live' } }, context());
+    expect(ok.response).toEqual({ result: 'Stage updated to During.' });
+    expect(stage).toEqual({ stage: 'During', reasoning: 'Story is live' });
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = { ...context(), setCrisisStage: () => { throw new Error('storage is full'); } };
+    const failed = dispatchToolCall(tools, { id: 'd', name: 'set_crisis_stage', args: { stage: 'After', reasoning: 'Resolved' } }, failing);
+    expect(failed.response.error).toMatchObject({ code: 'handler_failed', message: '"set_crisis_stage" could not be completed: storage is full' });
+  });
+});
@@ -0,0 +1,81 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { AgentToolName, CrisisIntake, CrisisStage, SchedulingPolicy, Transcription } from '../../types';
+import { LinkPolicy } from '../linkPolicy';
+
+/** What a tool handler may touch in the running consultation. */
+export interface ToolContext {
+  addTranscription: (entry: Transcription) => void;
+  /**
+   * Starts of callbacks requested in this consultation. Updated as soon as a
+   * request is made, so a second call in the same batch already sees it.
+   */
+  getRequestedCallbacks: () => number[];
+  addRequestedCallback: (start: number) => void;
+  getCrisisStage: () => CrisisStage | null;
+  /** Appends to the stage timeline rather than overwriting it. */
+  setCrisisStage: (stage: CrisisStage) => void;
+  getIntake: () => CrisisIntake;
+  setIntake: (intake: CrisisIntake) => void;
+  linkPolicy: LinkPolicy;
+  /** The consultant's callback availability, when the profile configures it. */
+  scheduling?: SchedulingPolicy;
+}
+
+export type ValidationResult<Args> = { ok: true; args: Args } | { ok: false; issues: string[] };
+
+export interface AgentTool<Args = unknown> {
+  name: AgentToolName;
+  declaration: FunctionDeclaration;
+  /** Checks the model's raw arguments; never trust `FunctionCall.args` as typed. */
+  validate: (args: Record<string, unknown>) => ValidationResult<Args>;
+  /** Applies the call and returns the response payload sent back to the model. */
+  handle: (args: Args, context: ToolContext) => Record<string, unknown>;
+}
+
+export type ToolErrorCode =
+  | 'unknown_tool'
+  | 'invalid_arguments'
+  | 'handler_failed'
+  | 'link_rejected'
+  | 'timezone_required'
+  | 'slot_unavailable';
+
+export type ToolRegistry = ReadonlyMap<string, AgentTool<unknown>>;
+
+export function createToolRegistry(tools: AgentTool<unknown>[]): ToolRegistry {
+  return new Map(tools.map(tool => [tool.name, tool]));
+}
+
+export const toolDeclarations = (registry: ToolRegistry): FunctionDeclaration[] =>
+  [...registry.values()].map(tool => tool.declaration);
+
+/** The response shape for any failed call; handlers return it for domain-level refusals. */
+export const toolError = (code: ToolErrorCode, message: string, details: Record<string, unknown> = {}) =>
+  ({ error: { code, message, ...details } });
+
+/**
+ * Runs one function call and always produces a response, so the model is
+ * never left waiting: unknown tools, bad arguments and handler failures come
+ * back as a structured `error` the model can read and recover from.
+ */
+export function dispatchToolCall(registry: ToolRegistry, call: FunctionCall, context: ToolContext): FunctionResponse {
+  const name = call.name ?? '';
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name, response });
+
+  const tool = registry.get(name);
+  if (!tool) {
+    return respond(toolError('unknown_tool', `There is no tool named "${name}".`, { availableTools: [...registry.keys()] }));
+  }
+
+  const validation = tool.validate(call.args ?? {});
+  if (validation.ok === false) {
+    return respond(toolError('invalid_arguments', `The arguments for "${name}" were rejected; fix them and call it again.`, { issues: validation.issues }));
+  }
+
+  try {
+    return respond(tool.handle(validation.args, context));
+  } catch (err) {
+    console.error(`Tool "${name}" failed:`, err);
+    return respond(toolError('handler_failed', `"${name}" could not be completed: ${(err as Error).message}`));
+  }
+}
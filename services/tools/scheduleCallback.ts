@@ -0,0 +1,97 @@
+import { Type } from '@google/genai';
+import { mergeIntake } from '../intake';
+import { availableSlots, formatSlotTime, isValidTimeZone, proposeSlots, toScheduledCallback } from '../scheduling';
+import { AgentTool, toolError } from './registry';
+import { optionalString, rejectUnknownKeys, requiredEnum } from './validate';
+
+const ACTIONS = ['propose', 'confirm'] as const;
+
+interface ScheduleCallbackArgs {
+  action: typeof ACTIONS[number];
+  timezone?: string;
+  start?: string;
+}
+
+export const scheduleCallbackTool: AgentTool<ScheduleCallbackArgs> = {
+  name: 'schedule_callback',
+  declaration: {
+    name: 'schedule_callback',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Requests a callback with the consultant. First call with action "propose" to get open slots in the caller\'s timezone, offer two or three of them, then call with action "confirm" and the exact "start" of the slot the caller picks. A request card with a calendar invite is added to the log; the consultant still has to confirm the time.',
+      properties: {
+        action: {
+          type: Type.STRING,
+          enum: [...ACTIONS],
+          description: '"propose" lists open slots; "confirm" requests one of them.',
+        },
+        timezone: {
+          type: Type.STRING,
+          description: 'The caller\'s IANA timezone (e.g., "America/Chicago"). Defaults to the timezone recorded in the intake.',
+        },
+        start: {
+          type: Type.STRING,
+          description: 'For "confirm": the "start" value of the chosen slot, exactly as returned by "propose".',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  validate: (args) => {
+    const issues: string[] = [];
+    const action = requiredEnum(args, 'action', ACTIONS, issues);
+    const timezone = optionalString(args, 'timezone', issues);
+    const start = optionalString(args, 'start', issues);
+    if (timezone && !isValidTimeZone(timezone)) issues.push(`"timezone" must be an IANA timezone such as "Europe/Rome", not "${timezone}"`);
+    if (action === 'confirm' && !start) issues.push('"start" is required to confirm a slot');
+    if (start && Number.isNaN(Date.parse(start))) issues.push('"start" must be an ISO 8601 time from a proposed slot');
+    rejectUnknownKeys(args, ['action', 'timezone', 'start'], issues);
+    return issues.length ? { ok: false, issues } : { ok: true, args: { action, timezone, start } };
+  },
+  handle: ({ action, timezone, start }, { scheduling, getIntake, setIntake, addTranscription, getRequestedCallbacks, addRequestedCallback }) => {
+    if (!scheduling) throw new Error('no availability is configured for this consultant');
+
+    const intake = getIntake();
+    const callerTimeZone = timezone ?? (intake.timezone && isValidTimeZone(intake.timezone) ? intake.timezone : undefined);
+    if (!callerTimeZone) {
+      return toolError('timezone_required', 'The caller\'s timezone is not known yet. Ask where they are, then call again with "timezone".');
+    }
+    if (!intake.timezone) setIntake(mergeIntake(intake, { timezone: callerTimeZone }));
+
+    // Nothing is reserved outside this consultation, so only its own requests are kept off the list.
+    const requestedStarts = getRequestedCallbacks();
+    const now = Date.now();
+    if (action === 'propose') {
+      const slots = proposeSlots(scheduling, now, callerTimeZone, requestedStarts);
+      if (!slots.length) {
+        return { timezone: callerTimeZone, slots: [], result: 'No callback slots are open in the booking window. Offer the urgent support channel instead.' };
+      }
+      return {
+        timezone: callerTimeZone,
+        slots: slots.map(slot => ({
+          start: new Date(slot.start).toISOString(),
+          callerTime: formatSlotTime(slot.start, callerTimeZone),
+          consultantTime: `${formatSlotTime(slot.start, slot.window.timeZone)} (${slot.window.label})`,
+        })),
+        result: 'Offer two or three of these in the caller\'s time, then confirm the one they choose.',
+      };
+    }
+
+    const requested = Date.parse(start!);
+    if (requestedStarts.includes(requested)) {
+      return toolError('slot_unavailable', 'A callback at that time has already been requested in this consultation. Remind the caller of it instead.');
+    }
+    const slot = availableSlots(scheduling, now).find(candidate => candidate.start === requested);
+    if (!slot) {
+      return toolError('slot_unavailable', 'That time is not an open slot. Call again with action "propose" and offer one of the returned times.');
+    }
+    const callback = toScheduledCallback(slot, callerTimeZone);
+    const callerTime = formatSlotTime(slot.start, callerTimeZone);
+    addRequestedCallback(slot.start);
+    addTranscription({ text: `Callback requested: ${callerTime}`, type: 'callback', timestamp: now, metadata: { callback } });
+    return {
+      result: 'Callback requested, not yet confirmed. Tell the caller the consultant will confirm this time, and that the card in the Consultation Log holds the details and a calendar invite. Do not say it is booked.',
+      callerTime,
+    };
+  },
+};
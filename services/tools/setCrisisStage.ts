@@ -0,0 +1,45 @@
+import { Type } from '@google/genai';
+import { CrisisStage, CrisisStageName } from '../../types';
+import { AgentTool } from './registry';
+import { rejectUnknownKeys, requiredEnum, requiredString } from './validate';
+
+const STAGES: CrisisStageName[] = ['Before', 'During', 'After'];
+
+export const setCrisisStageTool: AgentTool<CrisisStage> = {
+  name: 'set_crisis_stage',
+  declaration: {
+    name: 'set_crisis_stage',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Categorizes the current situation into one of three stages based on the user\'s description.',
+      properties: {
+        stage: {
+          type: Type.STRING,
+          enum: STAGES,
+          description: 'The stage of the crisis.',
+        },
+        reasoning: {
+          type: Type.STRING,
+          description: 'A brief explanation of why this stage was chosen.',
+        },
+      },
+      required: ['stage', 'reasoning'],
+    },
+  },
+  validate: (args) => {
+    const issues: string[] = [];
+    const stage = requiredEnum(args, 'stage', STAGES, issues);
+    const reasoning = requiredString(args, 'reasoning', issues);
+    rejectUnknownKeys(args, ['stage', 'reasoning'], issues);
+    return issues.length ? { ok: false, issues } : { ok: true, args: { stage, reasoning } };
+  },
+  handle: (args, { getCrisisStage, setCrisisStage, addTranscription }) => {
+    const previous = getCrisisStage();
+    setCrisisStage(args);
+    if (previous?.stage === args.stage) {
+      return { result: `Stage remains ${args.stage}; reasoning updated.` };
+    }
+    addTranscription({ text: `Detected Crisis Stage: ${args.stage}`, type: 'model', timestamp: Date.now() });
+    return { result: previous ? `Stage moved from ${previous.stage} to ${args.stage}.` : `Stage updated to ${args.stage}.` };
+  },
+};
@@ -0,0 +1,49 @@
+import { Type } from '@google/genai';
+import { checkSharedLink } from '../linkPolicy';
+import { AgentTool, toolError } from './registry';
+import { rejectUnknownKeys, requiredString } from './validate';
+
+interface ShareLinkArgs {
+  title: string;
+  url: string;
+}
+
+export const shareLinkTool: AgentTool<ShareLinkArgs> = {
+  name: 'share_link',
+  declaration: {
+    name: 'share_link',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Shares a specific URL/resource visually in the chat log for the user. Use this instead of reading URLs aloud. Only https links on the consultant\'s approved domains are shown.',
+      properties: {
+        title: {
+          type: Type.STRING,
+          description: 'The display title for the link (e.g., "Client Recommendations", "Watch the Show").',
+        },
+        url: {
+          type: Type.STRING,
+          description: 'The full destination URL.',
+        },
+      },
+      required: ['title', 'url'],
+    },
+  },
+  validate: (args) => {
+    const issues: string[] = [];
+    const title = requiredString(args, 'title', issues);
+    const url = requiredString(args, 'url', issues);
+    rejectUnknownKeys(args, ['title', 'url'], issues);
+    return issues.length ? { ok: false, issues } : { ok: true, args: { title, url } };
+  },
+  handle: ({ title, url }, { addTranscription, linkPolicy }) => {
+    const check = checkSharedLink(url, linkPolicy);
+    if (check.ok === false) {
+      return toolError('link_rejected', `The link was not shown to the user. ${check.reason} Do not read it aloud; share an approved resource instead.`, {
+        allowedDomains: linkPolicy.allowedDomains,
+        approvedResources: linkPolicy.resources.map(resource => resource.url),
+      });
+    }
+    addTranscription({ text: `Shared Link: ${title}`, type: 'link', timestamp: Date.now(), metadata: { title, url: check.url } });
+    return { result: 'Link shared.' };
+  },
+};
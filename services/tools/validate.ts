@@ -0,0 +1,54 @@
+/** Small argument checkers shared by the tool validators; each records a readable issue and returns the clean value. */
+
+export function requiredString(args: Record<string, unknown>, key: string, issues: string[]): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`"${key}" is required and must be a non-empty string`);
+    return '';
+  }
+  return value.trim();
+}
+
+export function optionalString(args: Record<string, unknown>, key: string, issues: string[]): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    issues.push(`"${key}" must be a string`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+export function optionalEnum<T extends string>(args: Record<string, unknown>, key: string, allowed: readonly T[], issues: string[]): T | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (!(allowed as readonly unknown[]).includes(value)) {
+    issues.push(`"${key}" must be one of ${allowed.map(a => `"${a}"`).join(', ')}`);
+    return undefined;
+  }
+  return value as T;
+}
+
+export function requiredEnum<T extends string>(args: Record<string, unknown>, key: string, allowed: readonly T[], issues: string[]): T {
+  if (args[key] === undefined || args[key] === null) {
+    issues.push(`"${key}" is required and must be one of ${allowed.map(a => `"${a}"`).join(', ')}`);
+    return allowed[0];
+  }
+  return optionalEnum(args, key, allowed, issues) ?? allowed[0];
+}
+
+export function optionalStringArray(args: Record<string, unknown>, key: string, issues: string[]): string[] | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    issues.push(`"${key}" must be an array of strings`);
+    return undefined;
+  }
+  return value.map(item => item.trim()).filter(Boolean);
+}
+
+export function rejectUnknownKeys(args: Record<string, unknown>, known: readonly string[], issues: string[]) {
+  for (const key of Object.keys(args)) {
+    if (!known.includes(key)) issues.push(`"${key}" is not a parameter of this tool`);
+  }
+}
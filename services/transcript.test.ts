@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Transcription } from '../types';
+import { TranscriptEvent, isPartial, reduceTranscript } from './transcript';
+
+const run = (events: TranscriptEvent[], start: Transcription[] = []) => events.reduce(reduceTranscript, start);
+const summary = (entries: Transcription[]) => entries.map(({ type, text, status }) => ({ type, text, status }));
+
+describe('reduceTranscript', () => {
+  it('grows one partial entry per streamed turn', () => {
+    const entries = run([
+      { type: 'inputDelta', text: '  A reporter', at: 1 },
+      { type: 'inputDelta', text: ' called.', at: 2 },
+    ]);
+    expect(entries).toEqual([{ id: 'user-1-0', type: 'user', text: 'A reporter called.', timestamp: 1, status: 'partial' }]);
+    expect(isPartial(entries[0])).toBe(true);
+  });
+
+  it('ignores deltas with no words until a turn has started', () => {
+    expect(run([{ type: 'inputDelta', text: '  ', at: 1 }, { type: 'outputDelta', text: '', at: 2 }])).toEqual([]);
+  });
+
+  it('closes the caller\'s turn when the model starts answering', () => {
+    const entries = run([
+      { type: 'inputDelta', text: 'Help. ', at: 1 },
+      { type: 'outputDelta', text: 'I am here.', at: 2 },
+    ]);
+    expect(summary(entries)).toEqual([
+      { type: 'user', text: 'Help.', status: 'final' },
+      { type: 'model', text: 'I am here.', status: 'partial' },
+    ]);
+  });
+
+  it('finalises every open turn on turnComplete', () => {
+    const entries = run([
+      { type: 'outputDelta', text: 'Tell me more.', at: 1 },
+      { type: 'inputDelta', text: 'It is', at: 2 },
+      { type: 'turnComplete' },
+    ]);
+    expect(entries.every(entry => entry.status === 'final')).toBe(true);
+    expect(run([{ type: 'turnComplete' }], entries)).toBe(entries);
+  });
+
+  it('marks only the model\'s turn as interrupted', () => {
+    const entries = run([
+      { type: 'outputDelta', text: 'First, ', at: 1 },
+      { type: 'inputDelta', text: 'Wait', at: 2 },
+      { type: 'interrupted' },
+    ]);
+    expect(summary(entries)).toEqual([
+      { type: 'model', text: 'First,', status: 'interrupted' },
+      { type: 'user', text: 'Wait', status: 'partial' },
+    ]);
+  });
+
+  it('drops open turns that never received any words', () => {
+    const open: Transcription = { id: 'model-1-0', type: 'model', text: ' ', timestamp: 1, status: 'partial' };
+    expect(run([{ type: 'turnComplete' }], [open])).toEqual([]);
+  });
+
+  it('appends entries as they are and leaves open turns streaming', () => {
+    const link: Transcription = { type: 'link', text: 'Guide', timestamp: 3, metadata: { url: 'https://example.com' } };
+    const entries = run([
+      { type: 'outputDelta', text: 'Here is', at: 1 },
+      { type: 'append', entry: link },
+      { type: 'outputDelta', text: ' a guide.', at: 2 },
+    ]);
+    expect(summary(entries)).toEqual([
+      { type: 'model', text: 'Here is a guide.', status: 'partial' },
+      { type: 'link', text: 'Guide', status: undefined },
+    ]);
+  });
+
+  it('closes everything when the session goes away', () => {
+    const entries = run([
+      { type: 'outputDelta', text: 'So the plan', at: 1 },
+      { type: 'inputDelta', text: 'Hello?', at: 2 },
+      { type: 'closeAll' },
+    ]);
+    expect(summary(entries)).toEqual([
+      { type: 'model', text: 'So the plan', status: 'interrupted' },
+      { type: 'user', text: 'Hello?', status: 'final' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { Transcription } from '../types';
+
+/** Everything that can change the consultation log, in the order the session reports it. */
+export type TranscriptEvent =
+  | { type: 'inputDelta'; text: string; at: number }
+  | { type: 'outputDelta'; text: string; at: number }
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' }
+  | { type: 'append'; entry: Transcription }
+  /** The session ended or dropped; nothing still streaming will be finished. */
+  | { type: 'closeAll' };
+
+type Speaker = 'user' | 'model';
+
+const isOpen = (entry: Transcription, speaker?: Speaker) =>
+  entry.status === 'partial' && (!speaker || entry.type === speaker);
+
+const findOpen = (entries: Transcription[], speaker: Speaker) => {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (isOpen(entries[i], speaker)) return i;
+  }
+  return -1;
+};
+
+/** Closes open turns; ones that never received any words are dropped rather than kept empty. */
+function close(entries: Transcription[], status: (entry: Transcription) => Transcription['status'], speaker?: Speaker): Transcription[] {
+  if (!entries.some(entry => isOpen(entry, speaker))) return entries;
+  return entries.flatMap(entry => {
+    if (!isOpen(entry, speaker)) return [entry];
+    const text = entry.text.trim();
+    return text ? [{ ...entry, text, status: status(entry) }] : [];
+  });
+}
+
+function stream(entries: Transcription[], speaker: Speaker, text: string, at: number): Transcription[] {
+  const index = findOpen(entries, speaker);
+  if (index === -1) {
+    if (!text.trim()) return entries;
+    return [...entries, { id: `${speaker}-${at}-${entries.length}`, type: speaker, text: text.trimStart(), timestamp: at, status: 'partial' }];
+  }
+  const next = entries.slice();
+  next[index] = { ...entries[index], text: entries[index].text + text };
+  return next;
+}
+
+/**
+ * Folds one session event into the log. Each spoken turn is a single entry
+ * that grows while it streams and is closed exactly once: by `turnComplete`,
+ * by `interrupted` (model turns only; the caller is still talking) or when
+ * the session goes away.
+ */
+export function reduceTranscript(entries: Transcription[], event: TranscriptEvent): Transcription[] {
+  switch (event.type) {
+    case 'inputDelta':
+      return stream(entries, 'user', event.text, event.at);
+    case 'outputDelta':
+      // The model only answers once the caller has finished, so their turn is over.
+      return stream(close(entries, () => 'final', 'user'), 'model', event.text, event.at);
+    case 'turnComplete':
+      return close(entries, () => 'final');
+    case 'interrupted':
+      return close(entries, () => 'interrupted', 'model');
+    case 'append':
+      return [...entries, event.entry];
+    case 'closeAll':
+      return close(entries, entry => (entry.type === 'model' ? 'interrupted' : 'final'));
+  }
+}
+
+export const isPartial = (entry: Transcription) => entry.status === 'partial';
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceActivityDetector } from './voiceActivity';
+
+const FRAME_MS = 20;
+
+/** Feeds `level` for `ms`, one reading per frame, and returns what the gate said at each one. */
+const feed = (detector: ReturnType<typeof createVoiceActivityDetector>, clock: { now: number }, level: number, ms: number) => {
+  const open: boolean[] = [];
+  for (let end = clock.now + ms; clock.now < end; clock.now += FRAME_MS) open.push(detector.update(level, clock.now));
+  return open;
+};
+
+describe('createVoiceActivityDetector', () => {
+  it('learns steady background noise above the minimum level and closes', () => {
+    const detector = createVoiceActivityDetector();
+    const clock = { now: 0 };
+    const open = feed(detector, clock, 0.02, 10_000);
+    expect(open[0]).toBe(true);
+    expect(open.lastIndexOf(true) * FRAME_MS).toBeLessThan(3_000);
+    expect(open.slice(3_000 / FRAME_MS).every(value => !value)).toBe(true);
+  });
+
+  it('opens for speech over learned noise and closes once it ends', () => {
+    const detector = createVoiceActivityDetector();
+    const clock = { now: 0 };
+    feed(detector, clock, 0.02, 5_000);
+
+    const speech = feed(detector, clock, 0.15, 2_000);
+    expect(speech.every(Boolean)).toBe(true);
+    const after = feed(detector, clock, 0.02, 2_000);
+    expect(after.slice(800 / FRAME_MS).every(value => !value)).toBe(true);
+  });
+
+  it('holds the gate open for the hangover after the last loud frame', () => {
+    const detector = createVoiceActivityDetector({ hangoverMs: 500 });
+    const clock = { now: 0 };
+    feed(detector, clock, 0.001, 1_000);
+    expect(detector.update(0.1, clock.now)).toBe(true);
+    clock.now += FRAME_MS;
+
+    const after = feed(detector, clock, 0.001, 1_000);
+    after.forEach((value, i) => expect(value).toBe(FRAME_MS * (i + 1) <= 500));
+
+    detector.reset();
+    expect(detector.update(0.001, clock.now)).toBe(false);
+  });
+});
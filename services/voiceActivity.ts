@@ -0,0 +1,63 @@
+/** Tuning for the on-device speech gate. Levels are RMS of the analyser's time-domain signal (0..1). */
+export interface VoiceActivityOptions {
+  /** Absolute level below which nothing counts as speech, however quiet the room. */
+  minLevel?: number;
+  /** How far above the learned noise floor a level must rise to count as speech. */
+  floorRatio?: number;
+  /** Keeps the gate open this long after the last loud frame so word gaps are not clipped. */
+  hangoverMs?: number;
+  /** The most the floor may grow per second while the level stays above it, speech included. */
+  floorRisePerSecond?: number;
+}
+
+export interface VoiceActivityDetector {
+  /** Feeds one level reading and returns whether speech is currently detected. */
+  update(level: number, now: number): boolean;
+  reset(): void;
+}
+
+const DEFAULTS: Required<VoiceActivityOptions> = { minLevel: 0.01, floorRatio: 3, hangoverMs: 700, floorRisePerSecond: 1.5 };
+
+/** Root-mean-square level of the analyser's current window; reuses `buffer` to avoid allocating per frame. */
+export function measureLevel(analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): number {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.sqrt(sum / buffer.length);
+}
+
+/**
+ * An energy gate with an adaptive noise floor. The floor drops quickly to the
+ * quietest recent level and creeps up slowly otherwise, even while the gate is
+ * open, so steady background noise like air conditioning stops triggering it
+ * after a few seconds. Pauses between words keep it from climbing into speech.
+ */
+export function createVoiceActivityDetector(options: VoiceActivityOptions = {}): VoiceActivityDetector {
+  const { minLevel, floorRatio, hangoverMs, floorRisePerSecond } = { ...DEFAULTS, ...options };
+  let floor = minLevel / floorRatio;
+  let lastSpeechAt = -Infinity;
+  let lastUpdateAt: number | null = null;
+
+  return {
+    update(level, now) {
+      const elapsed = lastUpdateAt === null ? 0 : Math.max(0, now - lastUpdateAt) / 1000;
+      lastUpdateAt = now;
+      const loud = level >= Math.max(minLevel, floor * floorRatio);
+      if (loud) lastSpeechAt = now;
+
+      if (level < floor) {
+        floor = level * 0.5 + floor * 0.5;
+      } else {
+        // Never above the current level, so the floor stays at the minimum of a rising signal.
+        const followed = loud ? floor : floor * 0.98 + level * 0.02;
+        floor = Math.min(level, Math.max(followed, floor * floorRisePerSecond ** elapsed));
+      }
+      return now - lastSpeechAt <= hangoverMs;
+    },
+    reset() {
+      floor = minLevel / floorRatio;
+      lastSpeechAt = -Infinity;
+      lastUpdateAt = null;
+    },
+  };
+}
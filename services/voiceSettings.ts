@@ -0,0 +1,54 @@
+import { SpeakingPace, VoiceConfig, VoiceName } from '../types';
+import { synthesizeSpeech } from './backend';
+
+const STORAGE_KEY = 'rk-voice-config';
+
+export const VOICE_NAMES: VoiceName[] = ['Kore', 'Zephyr', 'Puck', 'Charon', 'Fenrir'];
+export const SPEAKING_PACES: SpeakingPace[] = ['calm', 'brisk', 'rapid'];
+
+export const DEFAULT_VOICE_CONFIG: VoiceConfig = { voiceName: 'Kore', pace: 'brisk' };
+
+/** Persona lines for the system instruction; the live API has no rate control of its own. */
+export const PACE_INSTRUCTIONS: Record<SpeakingPace, string> = {
+  calm: 'Speak at a calm, measured pace, leaving short pauses so a stressed caller can keep up.',
+  brisk: 'Speak with a brisk, professional pace.',
+  rapid: 'Speak quickly and get straight to the point; the caller is short on time.',
+};
+
+/** The visitor's saved choice, falling back to `defaults` (normally the agent profile's voice). */
+export function loadVoiceConfig(defaults: VoiceConfig = DEFAULT_VOICE_CONFIG): VoiceConfig {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      voiceName: VOICE_NAMES.includes(stored?.voiceName) ? stored.voiceName : defaults.voiceName,
+      pace: SPEAKING_PACES.includes(stored?.pace) ? stored.pace : defaults.pace,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveVoiceConfig(config: VoiceConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch {
+    // Not persisting is fine; the choice still applies for this visit.
+  }
+}
+
+const previewCache = new Map<string, Promise<string>>();
+
+/**
+ * Synthesizes `line` in the given voice and pace through the API backend,
+ * returning base64 24 kHz PCM. Results are cached for the page's lifetime.
+ */
+export function fetchVoicePreview(config: VoiceConfig, line: string): Promise<string> {
+  const key = `${config.voiceName}|${config.pace}|${line}`;
+  let pending = previewCache.get(key);
+  if (!pending) {
+    pending = synthesizeSpeech(`${PACE_INSTRUCTIONS[config.pace]} Say: ${line}`, config.voiceName);
+    pending.catch(() => previewCache.delete(key));
+    previewCache.set(key, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,43 @@
+import { CrisisIntake, CrisisStage, Transcription } from '../types';
+
+/** wa.me prefills are carried in the URL, so keep the message comfortably short. */
+const MAX_SUMMARY_CHARS = 400;
+
+export interface WhatsAppContext {
+  firmName: string;
+  crisisStage: CrisisStage | null;
+  intake: CrisisIntake;
+  transcriptions: Transcription[];
+}
+
+const truncate = (text: string, max: number) =>
+  text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+
+/** The opening message the consultant receives, built from what the agent has learned so far. */
+export function buildWhatsAppMessage({ firmName, crisisStage, intake, transcriptions }: WhatsAppContext): string {
+  const lines = [`URGENT - Crisis consultation request via ${firmName}.`];
+
+  if (crisisStage) lines.push(`Stage: ${crisisStage.stage} crisis`);
+  const who = [intake.organization, intake.industry, intake.location].filter(Boolean).join(', ');
+  if (who) lines.push(`Organization: ${who}`);
+  if (intake.urgency) lines.push(`Urgency: ${intake.urgency}`);
+
+  const described = transcriptions
+    .filter(t => t.type === 'user')
+    .map(t => t.text.trim())
+    .filter(Boolean)
+    .join(' ');
+  if (described) {
+    lines.push(`Situation: ${truncate(described, MAX_SUMMARY_CHARS)}`);
+  } else if (crisisStage) {
+    lines.push(`Situation: ${truncate(crisisStage.reasoning, MAX_SUMMARY_CHARS)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/** A click-to-chat link; wa.me expects the number in international format, digits only. */
+export function buildWhatsAppLink(phoneNumber: string, message: string): string {
+  const digits = phoneNumber.replace(/\D/g, '');
+  return `https://wa.me/${digits}?text=${encodeURIComponent(message)}`;
+}
@@ -1,14 +1,188 @@
 
+export type Language = 'en' | 'it';
+
+/** `partial` turns are still streaming; entries without a status predate streaming and are final. */
+export type TurnStatus = 'partial' | 'final' | 'interrupted';
+
 export interface Transcription {
   text: string;
-  type: 'user' | 'model' | 'link';
+  type: 'user' | 'model' | 'link' | 'callback';
   timestamp: number;
+  /** Stable key for a streamed turn, so it can be updated in place. */
+  id?: string;
+  status?: TurnStatus;
   metadata?: {
     url?: string;
     title?: string;
+    callback?: ScheduledCallback;
   };
 }
 
+/** A callback the agent requested for the caller, pending the consultant's confirmation; rendered as a card with a calendar invite. */
+export interface ScheduledCallback {
+  /** UTC instants, ISO 8601. */
+  start: string;
+  end: string;
+  /** The caller's IANA timezone, used to show the time on their clock. */
+  timeZone: string;
+  /** Which of the consultant's availability windows the slot falls in. */
+  windowLabel: string;
+  windowTimeZone: string;
+}
+
+export type CrisisStageName = 'Before' | 'During' | 'After';
+
+export interface CrisisStage {
+  stage: CrisisStageName;
+  reasoning: string;
+}
+
+/** One entry in a consultation's stage timeline; `at` is when the agent made the call. */
+export interface CrisisStageChange extends CrisisStage {
+  at: number;
+}
+
+export type MediaExposure = 'None' | 'Local' | 'National' | 'International' | 'Social Media';
+export type IntakeUrgency = 'Low' | 'Medium' | 'High' | 'Critical';
+export type ContactMethod = 'WhatsApp' | 'Phone' | 'Email' | 'Video Call';
+
+/** The lead sheet the agent fills in progressively during a consultation. */
+export interface CrisisIntake {
+  organization?: string;
+  industry?: string;
+  location?: string;
+  timezone?: string;
+  stakeholders?: string[];
+  mediaExposure?: MediaExposure;
+  urgency?: IntakeUrgency;
+  preferredContact?: ContactMethod;
+}
+
+export type ActionWindow = '24h' | '48h' | '72h';
+
+/** The post-session brief drafted from a consultation; every field is editable by the client. */
+export interface CaseBrief {
+  summary: string;
+  stakeholders: string[];
+  risks: string[];
+  holdingLines: string[];
+  /** Actions due within each window, most urgent first. */
+  actions: Record<ActionWindow, string[]>;
+  generatedAt: number;
+  /** How many log entries the draft was based on, so a resumed consultation can tell it is stale. */
+  sourceEntries: number;
+}
+
+/** A consultation as persisted locally, so it can be reviewed or resumed later. */
+export interface ConsultationRecord {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  transcriptions: Transcription[];
+  /** The latest stage; kept alongside the history for quick listing. */
+  crisisStage: CrisisStage | null;
+  /** Every stage the agent has set, oldest first. Missing on records saved before it existed. */
+  stageHistory?: CrisisStageChange[];
+  intake: CrisisIntake;
+  caseBrief?: CaseBrief;
+}
+
+export type VoiceName = 'Kore' | 'Zephyr' | 'Puck' | 'Charon' | 'Fenrir';
+export type SpeakingPace = 'calm' | 'brisk' | 'rapid';
+
 export interface VoiceConfig {
-  voiceName: 'Kore' | 'Zephyr' | 'Puck' | 'Charon' | 'Fenrir';
+  voiceName: VoiceName;
+  pace: SpeakingPace;
+}
+
+/** Device IDs from `enumerateDevices`; an empty string means the system default. */
+export interface AudioDeviceSelection {
+  inputId: string;
+  outputId: string;
+}
+
+/** How consultation logs are redacted; emails, phones, addresses and card/ID numbers are always detected. */
+export interface RedactionSettings {
+  /** Names and other terms the client wants hidden, matched ignoring case. */
+  names: string[];
+  /** Redact consultations before they are saved on this device, not only on export. */
+  redactSaved: boolean;
+}
+
+/** Copy shown to users; English is required, other languages fall back to it. */
+export type LocalizedText = { en: string } & Partial<Record<Exclude<Language, 'en'>, string>>;
+
+export type AgentToolName = 'set_crisis_stage' | 'share_link' | 'record_crisis_intake' | 'schedule_callback';
+
+/** A recurring weekly block when the consultant takes calls, in the timezone they are in at the time. */
+export interface AvailabilityWindow {
+  /** Shown to the caller, e.g. "New York". */
+  label: string;
+  /** IANA timezone the hours below are in. */
+  timeZone: string;
+  /** 0 = Sunday … 6 = Saturday. */
+  days: number[];
+  /** "HH:MM", 24-hour wall-clock time in `timeZone`. */
+  start: string;
+  end: string;
+}
+
+export interface SchedulingPolicy {
+  windows: AvailabilityWindow[];
+  slotMinutes: number;
+  /** Earliest a callback can be booked, counted from now. */
+  minNoticeHours: number;
+  /** How many days ahead slots are offered. */
+  horizonDays: number;
+}
+
+/** Local metadata for a shared link, so cards never depend on fetching the page. */
+export interface LinkResource {
+  url: string;
+  siteName: string;
+  description: LocalizedText;
+  /** Path or URL of an icon bundled with the deployment. */
+  favicon?: string;
+}
+
+/** Everything that differs between consultants deploying this app. */
+export interface AgentProfile {
+  id: string;
+  branding: {
+    consultantName: string;
+    firmName: string;
+    initials: string;
+    subtitle: LocalizedText;
+    tagline: LocalizedText;
+    hero: {
+      headline: LocalizedText;
+      headlineAccent: LocalizedText;
+      intro: LocalizedText;
+    };
+    features: { title: LocalizedText; description: LocalizedText }[];
+    footer: LocalizedText;
+  };
+  persona: {
+    greeting: LocalizedText;
+    /** Protocol section of the system instruction. May use {consultantName}, {urgentSupportLabel} and {showLabel}. */
+    prompt: string;
+  };
+  links: {
+    testimonials?: string;
+    linkedin?: string;
+    show?: { title: string; url: string };
+    /** Hostnames the agent may share; subdomains are included. */
+    allowedDomains: string[];
+    /** Curated resources rendered as rich cards when the agent shares them. */
+    resources: LinkResource[];
+  };
+  escalation: {
+    whatsappNumber?: string;
+    phone?: string;
+    email?: string;
+  };
+  /** Required when `tools` includes `schedule_callback`. */
+  scheduling?: SchedulingPolicy;
+  tools: AgentToolName[];
+  defaultVoice: VoiceConfig;
 }
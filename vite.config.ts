@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API backend (`npm run server`) holds the Gemini key; the bundle never sees it.
+        proxy: {
+          '/api': { target: env.BACKEND_PROXY_TARGET || 'http://localhost:8787', ws: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL),
+        'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT),
+        'process.env.OPERATOR_RELAY': JSON.stringify(env.OPERATOR_RELAY)
       },
       resolve: {
         alias: {